@@ -0,0 +1,365 @@
+/**
+ * Address book
+ *
+ * Contacts map an alias to a platform/receiver target and can carry tags, so
+ * recurring payees are paid as @alias and whole groups as group:<tag>. They
+ * are stored in ~/.snackmoney/contacts.json, or $SNACKMONEY_CONTACTS.
+ */
+
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "fs";
+import { dirname, join } from "path";
+import { stateDir } from "./ledger.js";
+import {
+  Platform,
+  PaymentTarget,
+  normalizePlatform,
+  parsePaymentTarget,
+  validateReceiver,
+} from "./platforms.js";
+import { formatDelimited, parseDelimited } from "./csv.js";
+
+export interface Contact extends PaymentTarget {
+  /** Name used as @alias, unique ignoring case */
+  alias: string;
+  /** Groups the contact belongs to, used as group:<tag> */
+  tags: string[];
+  note?: string;
+}
+
+/** Prefix of a contact reference, e.g. @toly */
+export const CONTACT_PREFIX = "@";
+/** Prefix of a group reference, e.g. group:core-devs */
+export const GROUP_PREFIX = "group:";
+
+/**
+ * Path of the contacts file
+ *
+ * @returns The contacts path
+ */
+export function contactsPath(): string {
+  return process.env.SNACKMONEY_CONTACTS || join(stateDir(), "contacts.json");
+}
+
+/**
+ * Check an alias or tag name
+ *
+ * @param name - The alias or tag
+ * @param what - "alias" or "tag", for error messages
+ * @returns The name, without a leading @
+ */
+function validateName(name: string, what: "alias" | "tag"): string {
+  const clean = what === "alias" ? name.replace(/^@/, "") : name;
+  if (!/^[a-zA-Z0-9][\w.-]{0,63}$/.test(clean)) {
+    throw new Error(
+      `Invalid ${what}: ${name}. Use letters, digits, "_", "-" and "." (max 64 characters)`,
+    );
+  }
+  return clean;
+}
+
+/**
+ * Validate one contact, e.g. from an imported file
+ *
+ * @param data - The contact fields
+ * @returns The contact
+ */
+export function parseContact(data: unknown): Contact {
+  const fields: Record<string, unknown> =
+    typeof data === "object" && data !== null
+      ? (data as Record<string, unknown>)
+      : {};
+  if (typeof fields.alias !== "string") {
+    throw new Error("contact has no alias");
+  }
+  const alias = validateName(fields.alias, "alias");
+  if (
+    typeof fields.platform !== "string" ||
+    typeof fields.receiver !== "string"
+  ) {
+    throw new Error(`@${alias}: platform and receiver are required`);
+  }
+
+  let platform: Platform;
+  try {
+    platform = normalizePlatform(fields.platform);
+    validateReceiver(platform, fields.receiver);
+  } catch (error: unknown) {
+    throw new Error(`@${alias}: ${(error as Error).message}`);
+  }
+
+  const tags: unknown[] = Array.isArray(fields.tags)
+    ? fields.tags
+    : fields.tags
+      ? [fields.tags]
+      : [];
+  const contact: Contact = {
+    alias,
+    platform,
+    receiver: fields.receiver,
+    tags: [...new Set(tags.map((tag) => validateName(String(tag), "tag")))],
+  };
+  if (fields.note) {
+    contact.note = String(fields.note);
+  }
+  return contact;
+}
+
+/**
+ * Read every saved contact
+ *
+ * @returns The contacts, sorted by alias
+ */
+export function listContacts(): Contact[] {
+  const path = contactsPath();
+  if (!existsSync(path)) {
+    return [];
+  }
+
+  try {
+    const data = JSON.parse(readFileSync(path, "utf-8"));
+    if (!Array.isArray(data.contacts)) {
+      throw new Error('expected a "contacts" array');
+    }
+    return data.contacts.map(parseContact);
+  } catch (error: unknown) {
+    throw new Error(
+      `Invalid contacts file ${path}: ${(error as Error).message}`,
+    );
+  }
+}
+
+/**
+ * Replace the saved contacts
+ *
+ * @param contacts - The contacts to keep
+ */
+export function saveContacts(contacts: Contact[]): void {
+  const path = contactsPath();
+  const sorted = [...contacts].sort((a, b) => a.alias.localeCompare(b.alias));
+  mkdirSync(dirname(path), { recursive: true, mode: 0o700 });
+  writeFileSync(
+    path,
+    `${JSON.stringify({ version: 1, contacts: sorted }, null, 2)}\n`,
+    { mode: 0o600 },
+  );
+}
+
+/**
+ * Look up a contact by alias, ignoring case and a leading @
+ *
+ * @param contacts - The contacts to search
+ * @param alias - The alias
+ * @returns The contact, if saved
+ */
+function byAlias(contacts: Contact[], alias: string): Contact | undefined {
+  const wanted = alias.replace(/^@/, "").toLowerCase();
+  return contacts.find((c) => c.alias.toLowerCase() === wanted);
+}
+
+/**
+ * Save a contact
+ *
+ * @param alias - The alias
+ * @param target - The platform/receiver target, e.g. farcaster.xyz/toly
+ * @param options - Contact options
+ * @param options.tags - Groups the contact belongs to
+ * @param options.note - Free-form note
+ * @param options.replace - Overwrite an existing contact with the same alias
+ * @returns The saved contact
+ */
+export function addContact(
+  alias: string,
+  target: string,
+  options: { tags?: string[]; note?: string; replace?: boolean } = {},
+): Contact {
+  const contact = parseContact({
+    alias,
+    ...parsePaymentTarget(target),
+    tags: options.tags,
+    note: options.note,
+  });
+  const contacts = listContacts();
+  const existing = byAlias(contacts, contact.alias);
+  if (existing && !options.replace) {
+    throw new Error(
+      `Contact @${existing.alias} already exists (${existing.platform}/${existing.receiver}). Pass --force to replace it`,
+    );
+  }
+  saveContacts([...contacts.filter((c) => c !== existing), contact]);
+  return contact;
+}
+
+/**
+ * Delete a contact
+ *
+ * @param alias - The alias
+ * @returns The removed contact
+ */
+export function removeContact(alias: string): Contact {
+  const contacts = listContacts();
+  const contact = byAlias(contacts, alias);
+  if (!contact) {
+    throw new Error(`Unknown contact: @${alias.replace(/^@/, "")}`);
+  }
+  saveContacts(contacts.filter((c) => c !== contact));
+  return contact;
+}
+
+/**
+ * Find a saved contact
+ *
+ * @param alias - The alias, with or without @
+ * @returns The contact
+ */
+export function getContact(alias: string): Contact {
+  const contact = byAlias(listContacts(), alias);
+  if (!contact) {
+    const name = alias.replace(/^@/, "");
+    throw new Error(
+      `Unknown contact: @${name}. Add it with: snackmoney contacts add ${name} <platform/receiver>`,
+    );
+  }
+  return contact;
+}
+
+/**
+ * Contacts carrying a tag
+ *
+ * @param tag - The tag, ignoring case
+ * @returns The contacts; throws when there are none
+ */
+export function getGroup(tag: string): Contact[] {
+  const wanted = tag.toLowerCase();
+  const members = listContacts().filter((c) =>
+    c.tags.some((t) => t.toLowerCase() === wanted),
+  );
+  if (members.length === 0) {
+    throw new Error(
+      `No contacts in group ${tag}. Tag contacts with: snackmoney contacts add <alias> <platform/receiver> --tag ${tag}`,
+    );
+  }
+  return members;
+}
+
+/**
+ * Whether a receiver refers to the address book (@alias or group:<tag>)
+ *
+ * @param value - A receiver as given on the command line or in a file
+ * @returns True for contact and group references
+ */
+export function isContactReference(value: string): boolean {
+  return value.startsWith(CONTACT_PREFIX) || value.startsWith(GROUP_PREFIX);
+}
+
+/**
+ * Expand an @alias or group:<tag> reference into payment targets
+ *
+ * @param reference - The reference
+ * @returns One target for a contact, every member for a group
+ */
+export function expandReference(reference: string): PaymentTarget[] {
+  const contacts = reference.startsWith(GROUP_PREFIX)
+    ? getGroup(reference.slice(GROUP_PREFIX.length))
+    : [getContact(reference)];
+  return contacts.map(({ platform, receiver }) => ({ platform, receiver }));
+}
+
+/**
+ * Parse a payment target that may be a contact: @alias or platform/receiver
+ *
+ * @param target - The target as given on the command line
+ * @returns The validated payment target
+ */
+export function resolvePaymentTarget(target: string): PaymentTarget {
+  if (target.startsWith(GROUP_PREFIX)) {
+    throw new Error(
+      `${target} is a group; pay groups with: snackmoney batch-send ${target}:<amount>`,
+    );
+  }
+  if (target.startsWith(CONTACT_PREFIX)) {
+    const { platform, receiver } = getContact(target);
+    return { platform, receiver };
+  }
+  return parsePaymentTarget(target);
+}
+
+/** Columns of the contacts CSV format */
+const CSV_COLUMNS = ["alias", "platform", "receiver", "tags", "note"];
+
+/**
+ * Parse contacts from a JSON or CSV export
+ *
+ * CSV files have a header row alias,platform,receiver,tags,note with tags
+ * separated by spaces; JSON files hold a "contacts" array or a bare array.
+ *
+ * @param text - The file contents
+ * @param format - json or csv
+ * @returns The contacts
+ */
+export function parseContacts(text: string, format: "json" | "csv"): Contact[] {
+  if (format === "json") {
+    const data = JSON.parse(text);
+    const contacts = Array.isArray(data) ? data : data.contacts;
+    if (!Array.isArray(contacts)) {
+      throw new Error('JSON must contain a "contacts" array');
+    }
+    return contacts.map(parseContact);
+  }
+
+  const rows = parseDelimited(text, ",");
+  if (rows.length === 0) {
+    return [];
+  }
+  const header = rows[0].fields.map((name) => name.trim().toLowerCase());
+  for (const required of ["alias", "platform", "receiver"]) {
+    if (!header.includes(required)) {
+      throw new Error(
+        `Line ${rows[0].line}: header must contain "${required}" (expected: ${CSV_COLUMNS.join(",")})`,
+      );
+    }
+  }
+
+  return rows.slice(1).map(({ line, fields }) => {
+    const value = (name: string) => (fields[header.indexOf(name)] ?? "").trim();
+    try {
+      return parseContact({
+        alias: value("alias"),
+        platform: value("platform"),
+        receiver: value("receiver"),
+        tags: value("tags").split(/\s+/).filter(Boolean),
+        note: value("note") || undefined,
+      });
+    } catch (error: unknown) {
+      throw new Error(`Line ${line}: ${(error as Error).message}`);
+    }
+  });
+}
+
+/**
+ * Serialize contacts for export
+ *
+ * @param contacts - The contacts
+ * @param format - json or csv
+ * @returns The file contents
+ */
+export function formatContacts(
+  contacts: Contact[],
+  format: "json" | "csv",
+): string {
+  if (format === "json") {
+    return `${JSON.stringify({ version: 1, contacts }, null, 2)}\n`;
+  }
+  return formatDelimited(
+    [
+      CSV_COLUMNS,
+      ...contacts.map((c) => [
+        c.alias,
+        c.platform,
+        c.receiver,
+        c.tags.join(" "),
+        c.note ?? "",
+      ]),
+    ],
+    ",",
+  );
+}
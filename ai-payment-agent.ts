@@ -12,266 +12,259 @@
  */
 
 import minimist from "minimist";
-import axios from "axios";
-import { Hex } from "viem";
-import { privateKeyToAccount } from "viem/accounts";
 import {
-  x402Client,
-  wrapAxiosWithPayment,
-  decodePaymentResponseHeader,
-} from "@x402/axios";
-import { registerExactEvmScheme } from "@x402/evm/exact/client";
-import { registerExactSvmScheme } from "@x402/svm/exact/client";
-import { createKeyPairSignerFromBytes } from "@solana/kit";
-import bs58 from "bs58";
-
-const privateKey = process.env.EVM_PRIVATE_KEY as Hex;
-const svmPrivateKey = process.env.SVM_PRIVATE_KEY as string;
-const baseURL = process.env.RESOURCE_SERVER_URL || "https://api.snack.money";
+  SnackMoneyClient,
+  PaymentError,
+  PaymentResult,
+  BatchPaymentResult,
+  BatchReceiver,
+} from "./client.js";
+import {
+  attachLedger,
+  entriesFromBatch,
+  entryFromPayment,
+  ledgerRecord,
+} from "./ledger.js";
+import { printRetries } from "./display.js";
+import { Platform, normalizePlatform, validateReceiver } from "./platforms.js";
+import { parseAmount, formatAmount } from "./amount.js";
+import { enforcePolicy } from "./policy.js";
+import { confirmPayments } from "./confirm.js";
+import { checkBalance } from "./preflight.js";
+import { groupByPlatform } from "./batches.js";
+import { unlockWallet, walletNetworkLabel } from "./keystore.js";
+import { applyProfile, Profile } from "./profiles.js";
+import {
+  print,
+  printError,
+  setOutputFormat,
+  emitResult,
+  emitFailure,
+  PaymentRecord,
+} from "./output.js";
+
+const args = minimist(process.argv.slice(2), {
+  string: ["output", "wallet", "profile"],
+  boolean: ["yes", "trim", "skip-balance-check"],
+  alias: { o: "output", y: "yes" },
+});
+
+let profile: Profile;
+try {
+  profile = applyProfile(args.profile);
+  setOutputFormat(args.output || profile.output);
+} catch (error: unknown) {
+  printError(`❌ ${(error as Error).message}`);
+  emitFailure("ai-agent", error);
+  process.exit(1);
+}
+
+// Read after the profile so keys in .env are picked up
 const anthropicApiKey = process.env.ANTHROPIC_API_KEY;
 const openaiApiKey = process.env.OPENAI_API_KEY;
 
-const args = minimist(process.argv.slice(2));
-
-// Validate network parameter if provided
-const allowedNetworks = ["base", "solana"];
-
-// Check which private keys are available
-const hasEvmKey = !!privateKey;
-const hasSvmKey = !!svmPrivateKey;
+/** Every payment made in this run, for --output */
+const records: PaymentRecord[] = [];
 
 // Debug: Show which keys are detected
 if (process.env.DEBUG) {
-  console.log(`🔍 Debug: EVM_PRIVATE_KEY = ${hasEvmKey ? "SET" : "NOT SET"}`);
-  console.log(`🔍 Debug: SVM_PRIVATE_KEY = ${hasSvmKey ? "SET" : "NOT SET"}`);
+  print(
+    `🔍 Debug: EVM_PRIVATE_KEY = ${process.env.EVM_PRIVATE_KEY ? "SET" : "NOT SET"}`,
+  );
+  print(
+    `🔍 Debug: SVM_PRIVATE_KEY = ${process.env.SVM_PRIVATE_KEY ? "SET" : "NOT SET"}`,
+  );
 }
 
-// Determine network based on provided arg or auto-detect
-let useSolana: boolean;
+let client: SnackMoneyClient;
+let networkName: string;
 
-if (args.network) {
-  // Network explicitly specified
-  if (!allowedNetworks.includes(args.network.toLowerCase())) {
-    console.error(
-      `❌ network must be either ${allowedNetworks.map((n) => `'${n}'`).join(" or ")}`,
-    );
-    process.exit(1);
-  }
-
-  useSolana = args.network.toLowerCase() === "solana";
+/**
+ * Create the client from the selected wallet or the environment keys
+ */
+async function init(): Promise<void> {
+  try {
+    const network: string | undefined = args.network || profile.network;
+    const unlocked = await unlockWallet(args.wallet, network);
+    client = SnackMoneyClient.fromEnv({
+      network,
+      memo: profile.memo,
+      ...unlocked?.keys,
+    });
+    attachLedger(client, "ai-agent");
+    printRetries(client);
 
-  // Validate the required key is available for the specified network
-  if (useSolana && !hasSvmKey) {
-    console.error(
-      "❌ Missing SVM_PRIVATE_KEY environment variable (needed for --network solana)",
-    );
-    process.exit(1);
-  }
-  if (!useSolana && !hasEvmKey) {
-    console.error(
-      "❌ Missing EVM_PRIVATE_KEY environment variable (needed for --network base)",
-    );
-    process.exit(1);
-  }
-} else {
-  // No network specified, auto-detect from available keys
-  if (hasEvmKey && hasSvmKey) {
-    console.error(
-      "❌ Both EVM_PRIVATE_KEY and SVM_PRIVATE_KEY environment variables are set",
-    );
-    console.error(
-      "   Please specify which network to use with --network <base|solana>",
-    );
-    process.exit(1);
-  } else if (hasSvmKey) {
-    useSolana = true;
-    console.log("ℹ️  Auto-detected network: Solana (based on SVM_PRIVATE_KEY)");
-  } else if (hasEvmKey) {
-    useSolana = false;
-    console.log("ℹ️  Auto-detected network: Base (based on EVM_PRIVATE_KEY)");
-  } else {
-    console.error("❌ No private keys found in environment variables");
-    console.error(
-      "   Set either EVM_PRIVATE_KEY (for Base) or SVM_PRIVATE_KEY (for Solana)",
-    );
+    if (unlocked) {
+      print(
+        `🔐 Using wallet ${unlocked.wallet.name} (${walletNetworkLabel(unlocked.wallet.network)}: ${unlocked.wallet.address})`,
+      );
+    } else if (!network) {
+      print(
+        client.network === "solana"
+          ? "ℹ️  Auto-detected network: Solana (based on SVM_PRIVATE_KEY)"
+          : "ℹ️  Auto-detected network: Base (based on EVM_PRIVATE_KEY)",
+      );
+    }
+  } catch (error: unknown) {
+    printError(`❌ ${(error as Error).message}`);
+    emitFailure("ai-agent", error);
     process.exit(1);
   }
+
+  networkName = client.network === "solana" ? "Solana" : "Base";
 }
 
 if (!anthropicApiKey && !openaiApiKey) {
-  console.error("⚠️  Warning: No AI API key set. AI features will be limited.");
-  console.error(
+  printError("⚠️  Warning: No AI API key set. AI features will be limited.");
+  printError(
     "   Set ANTHROPIC_API_KEY or OPENAI_API_KEY environment variable for better parsing.",
   );
 }
 
 if (!args.prompt) {
-  console.error(
-    'Usage: yarn ai-agent --prompt "<your payment request>" [--network <base|solana>]',
+  printError(
+    'Usage: yarn ai-agent --prompt "<your payment request>" [--network <network>] [--wallet <name>] [--profile <name>] [--trim] [--skip-balance-check] [--yes] [--output <format>]',
   );
-  console.log("\nExamples:");
-  console.log(
+  print("\nExamples:");
+  print(
     '  yarn ai-agent --prompt "Send 1 USDC to @toly on Farcaster and 0.5 USDC to @aeyakovenko on X"',
   );
-  console.log('  yarn ai-agent --prompt "Pay @mesut 0.5 USDC on Farcaster"');
-  console.log(
-    '  yarn ai-agent --prompt "Send 0.25 USDC tip to @0xmesuthere on X"',
+  print('  yarn ai-agent --prompt "Pay @mesut 0.5 USDC on Farcaster"');
+  print('  yarn ai-agent --prompt "Send 0.25 USDC tip to @0xmesuthere on X"');
+  print(
+    "\nNote: --network is base, base-sepolia, solana, solana-devnet or a custom network; if not specified, it will be auto-detected based on available private keys.",
   );
-  console.log(
-    "\nNote: If --network is not specified, it will be auto-detected based on available private keys.",
-  );
-  console.log(
+  print(
     "      If both EVM_PRIVATE_KEY and SVM_PRIVATE_KEY are set, you must specify --network.",
   );
+  emitFailure("ai-agent", new Error("Missing --prompt"));
   process.exit(1);
 }
 
 interface PaymentInstruction {
   receiver: string;
-  amount: number;
-  platform: "x" | "farcaster" | "web" | "email" | "github";
+  amount: bigint;
+  platform: Platform;
+  description?: string;
+}
+
+/** A payment as parsed from the prompt, before it is checked */
+interface ParsedPayment {
+  /** Receiver, with or without an @ prefix */
+  receiver: string;
+  /** Amount; AI models return JSON numbers */
+  amount: number | string;
+  /** Platform name or alias */
+  platform: string;
   description?: string;
 }
 
 /**
- * AI Tool: Execute a payment via Snack Money
+ * Print the details of a failed payment
+ *
+ * @param title - Failure banner
+ * @param error - The payment error
  */
-async function executePayment(instruction: PaymentInstruction): Promise<any> {
-  let api;
-  let network;
-  const client = new x402Client();
-
-  if (useSolana) {
-    // Use mainnet for production, devnet for local development
-    network =
-      baseURL?.includes("localhost") || baseURL?.includes("127.0.0.1")
-        ? "solana-devnet"
-        : "solana";
-
-    const privateKeyBytes = bs58.decode(svmPrivateKey);
-    const solanaSigner = await createKeyPairSignerFromBytes(privateKeyBytes);
-    registerExactSvmScheme(client, { signer: solanaSigner });
-    api = wrapAxiosWithPayment(axios.create({ baseURL }), client);
+function displayFailure(title: string, error: PaymentError): void {
+  printError(`\n❌ ${title}`);
+  printError("━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━");
+
+  if (error.status) {
+    printError(`Status: ${error.status}`);
+    printError(`Error: ${JSON.stringify(error.data, null, 2)}`);
+  } else if (error.cause && (error.cause as { request?: unknown }).request) {
+    printError("Network error - no response received");
   } else {
-    network = "base";
-    const account = privateKeyToAccount(privateKey);
-    registerExactEvmScheme(client, { signer: account });
-    api = wrapAxiosWithPayment(axios.create({ baseURL }), client);
+    printError(`Error: ${(error.cause as Error)?.message || error.message}`);
   }
+}
 
-  console.log(
-    `💰 Paying: ${instruction.amount} USDC → @${instruction.receiver} (${instruction.platform}) on ${useSolana ? "Solana" : "Base"}`,
+/**
+ * AI Tool: Execute a payment via Snack Money
+ *
+ * @param instruction - The parsed payment instruction
+ * @returns The settled payment
+ */
+async function executePayment(
+  instruction: PaymentInstruction,
+): Promise<PaymentResult> {
+  print(
+    `💰 Paying: ${formatAmount(instruction.amount)} USDC → @${instruction.receiver} (${instruction.platform}) on ${networkName}`,
   );
 
   try {
-    const response = await api.post(`/payments/${instruction.platform}/pay`, {
-      amount: instruction.amount,
-      currency: "USDC",
+    const result = await client.send({
+      platform: instruction.platform,
       receiver: instruction.receiver,
+      amount: instruction.amount,
       description:
         instruction.description ||
-        `Payment via AI Agent (${useSolana ? "Solana" : "Ethereum"})`,
+        `Payment via AI Agent (${client.network === "solana" ? "Solana" : "Ethereum"})`,
     });
 
     // Display detailed receipt
-    displayReceipt(response, {
-      amount: instruction.amount,
-      currency: "USDC",
-      receiver: instruction.receiver,
-      receiver_identity: instruction.platform,
-      description: instruction.description || "Payment via AI Agent",
-    });
+    displayReceipt(result);
+    records.push(
+      ledgerRecord(
+        entryFromPayment("ai-agent", client.settlementNetwork, result),
+      ),
+    );
 
-    return response.data;
-  } catch (error: any) {
-    console.error("\n❌ PAYMENT FAILED");
-    console.error("━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━");
-
-    if (error.response) {
-      console.error(`Status: ${error.response.status}`);
-      console.error(`Error: ${JSON.stringify(error.response.data, null, 2)}`);
-    } else if (error.request) {
-      console.error("Network error - no response received");
-    } else {
-      console.error(`Error: ${error.message}`);
-    }
+    return result;
+  } catch (error: unknown) {
+    displayFailure(
+      "PAYMENT FAILED",
+      PaymentError.from(error, "Payment failed"),
+    );
     throw error;
   }
 }
 
 /**
  * AI Tool: Execute batch payments
+ *
+ * @param platform - The platform all receivers are on
+ * @param receivers - Receivers, amounts and descriptions
+ * @returns The settled batch payment
  */
 async function executeBatchPayment(
-  platform: PaymentInstruction["platform"],
-  receivers: Array<{ receiver: string; amount: number }>,
-): Promise<any> {
-  let api;
-  let network;
-  const client = new x402Client();
-
-  if (useSolana) {
-    // Use mainnet for production, devnet for local development
-    network =
-      baseURL?.includes("localhost") || baseURL?.includes("127.0.0.1")
-        ? "solana-devnet"
-        : "solana";
-
-    const privateKeyBytes = bs58.decode(svmPrivateKey);
-    const solanaSigner = await createKeyPairSignerFromBytes(privateKeyBytes);
-    registerExactSvmScheme(client, { signer: solanaSigner });
-    api = wrapAxiosWithPayment(axios.create({ baseURL }), client);
-  } else {
-    network = "base";
-    const account = privateKeyToAccount(privateKey);
-    registerExactEvmScheme(client, { signer: account });
-    api = wrapAxiosWithPayment(axios.create({ baseURL }), client);
-  }
-
-  console.log(
-    `💰 Batch paying ${receivers.length} recipients on ${platform} using ${useSolana ? "Solana" : "Base"}`,
-  );
-
-  const totalAmount = receivers.reduce(
-    (sum, receiver) => sum + receiver.amount,
-    0,
+  platform: Platform,
+  receivers: BatchReceiver[],
+): Promise<BatchPaymentResult> {
+  print(
+    `💰 Batch paying ${receivers.length} recipients on ${platform} using ${networkName}`,
   );
 
   try {
-    const response = await api.post(`/payments/${platform}/batch-pay`, {
-      currency: "USDC",
-      type: "social-network",
-      sender_username: "ai-payment-agent",
+    const result = await client.batchSend({
+      platform,
       receivers,
+      senderUsername: "ai-payment-agent",
     });
 
     // Display detailed batch receipt
-    displayBatchReceipt(response, {
-      receivers,
-      receiver_identity: platform,
-      currency: "USDC",
-      totalAmount,
-    });
+    displayBatchReceipt(result);
+    records.push(
+      ...entriesFromBatch("ai-agent", client.settlementNetwork, result).map(
+        ledgerRecord,
+      ),
+    );
 
-    return response.data;
-  } catch (error: any) {
-    console.error("\n❌ BATCH PAYMENT FAILED");
-    console.error("━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━");
-
-    if (error.response) {
-      console.error(`Status: ${error.response.status}`);
-      console.error(`Error: ${JSON.stringify(error.response.data, null, 2)}`);
-    } else if (error.request) {
-      console.error("Network error - no response received");
-    } else {
-      console.error(`Error: ${error.message}`);
-    }
+    return result;
+  } catch (error: unknown) {
+    displayFailure(
+      "BATCH PAYMENT FAILED",
+      PaymentError.from(error, "Batch payment failed"),
+    );
     throw error;
   }
 }
 
 /**
  * Parse natural language payment request using AI (Claude or OpenAI)
+ *
+ * @param prompt - The natural language request
+ * @returns The parsed payment instructions
  */
 async function parsePaymentRequest(
   prompt: string,
@@ -283,7 +276,7 @@ async function parsePaymentRequest(
     return parseWithClaude(prompt);
   } else {
     // Fallback: Simple regex-based parsing
-    console.log(
+    print(
       "⚠️  Using regex parser. Set OPENAI_API_KEY or ANTHROPIC_API_KEY for AI parsing.",
     );
     return fallbackParser(prompt);
@@ -292,9 +285,12 @@ async function parsePaymentRequest(
 
 /**
  * Parse using OpenAI
+ *
+ * @param prompt - The natural language request
+ * @returns The parsed payment instructions
  */
 async function parseWithOpenAI(prompt: string): Promise<PaymentInstruction[]> {
-  console.log("🤖 OpenAI parsing...");
+  print("🤖 OpenAI parsing...");
 
   const systemPrompt = `You are a payment assistant. Parse payment requests and extract structured payment instructions.
 
@@ -344,9 +340,12 @@ If you cannot parse valid payment instructions, return an empty array [].`;
 
 /**
  * Parse using Claude
+ *
+ * @param prompt - The natural language request
+ * @returns The parsed payment instructions
  */
 async function parseWithClaude(prompt: string): Promise<PaymentInstruction[]> {
-  console.log("🤖 Claude parsing...");
+  print("🤖 Claude parsing...");
 
   const response = await fetch("https://api.anthropic.com/v1/messages", {
     method: "POST",
@@ -398,6 +397,10 @@ If you cannot parse valid payment instructions, return an empty array [].`,
 
 /**
  * Parse AI response and extract JSON
+ *
+ * @param content - The raw model response
+ * @param provider - Name of the AI provider, for error messages
+ * @returns The parsed payment instructions
  */
 function parseAIResponse(
   content: string,
@@ -406,23 +409,36 @@ function parseAIResponse(
   // Extract JSON from response (handle markdown code blocks)
   const jsonMatch = content.match(/\[[\s\S]*\]/);
   if (!jsonMatch) {
-    console.error(
+    printError(
       `❌ Could not parse ${provider} response. Raw response:`,
       content,
     );
-    console.log("⚠️  Using regex fallback...");
+    print("⚠️  Using regex fallback...");
     return fallbackParser(content);
   }
 
-  const instructions = JSON.parse(jsonMatch[0]);
+  let payments: unknown;
+  try {
+    payments = JSON.parse(jsonMatch[0]);
+  } catch (error: unknown) {
+    throw new Error(
+      `${provider} returned invalid JSON: ${(error as Error).message}`,
+    );
+  }
+  if (!Array.isArray(payments)) {
+    throw new Error(`${provider} did not return an array of payments`);
+  }
+  const instructions = payments.map((payment, index) =>
+    toInstruction(parsedPayment(payment, `${provider} payment ${index + 1}`)),
+  );
 
   // Display parsed instructions
-  console.log(
+  print(
     `📋 Found ${instructions.length} payment(s):`,
     instructions
       .map(
-        (inst: PaymentInstruction) =>
-          `${inst.amount} USDC → @${inst.receiver} (${inst.platform})`,
+        (inst) =>
+          `${formatAmount(inst.amount)} USDC → @${inst.receiver} (${inst.platform})`,
       )
       .join(", "),
   );
@@ -430,8 +446,61 @@ function parseAIResponse(
   return instructions;
 }
 
+/**
+ * Check that an element of an AI response has the fields of a payment
+ *
+ * @param value - The parsed JSON element
+ * @param context - Which payment it is, for errors
+ * @returns The payment
+ */
+function parsedPayment(value: unknown, context: string): ParsedPayment {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    throw new Error(`${context} is not an object`);
+  }
+  const { receiver, amount, platform, description } = value as Record<
+    string,
+    unknown
+  >;
+  if (typeof receiver !== "string" || !receiver) {
+    throw new Error(`${context} has no receiver`);
+  }
+  if (typeof platform !== "string" || !platform) {
+    throw new Error(`${context} has no platform`);
+  }
+  if (typeof amount !== "string" && typeof amount !== "number") {
+    throw new Error(`${context} has no amount`);
+  }
+  if (description != null && typeof description !== "string") {
+    throw new Error(`${context} has a description that is not a string`);
+  }
+  return { receiver, amount, platform, description: description ?? undefined };
+}
+
+/**
+ * Check a parsed payment like CLI input, before any policy sees it: the
+ * platform is normalized ("Farcaster", "twitter" -> farcaster, x), the
+ * receiver validated for it and the amount parsed exactly
+ *
+ * @param inst - A payment as parsed from the prompt
+ * @returns The payment instruction
+ */
+function toInstruction(inst: ParsedPayment): PaymentInstruction {
+  const platform = normalizePlatform(inst.platform);
+  const receiver = inst.receiver.replace(/^@/, "");
+  validateReceiver(platform, receiver);
+  return {
+    receiver,
+    amount: parseAmount(inst.amount),
+    platform,
+    description: inst.description,
+  };
+}
+
 /**
  * Fallback parser for when Claude API is not available
+ *
+ * @param prompt - The natural language request
+ * @returns The parsed payment instructions
  */
 function fallbackParser(prompt: string): PaymentInstruction[] {
   const instructions: PaymentInstruction[] = [];
@@ -450,34 +519,40 @@ function fallbackParser(prompt: string): PaymentInstruction[] {
     let match;
     while ((match = pattern.exec(prompt)) !== null) {
       if (pattern.source.includes("send")) {
-        instructions.push({
-          receiver: match[2],
-          amount: parseFloat(match[1]),
-          platform: match[3].toLowerCase() as any,
-        });
+        instructions.push(
+          toInstruction({
+            receiver: match[2],
+            amount: match[1],
+            platform: match[3],
+          }),
+        );
       } else if (pattern.source.includes("pay")) {
-        instructions.push({
-          receiver: match[1],
-          amount: parseFloat(match[2]),
-          platform: match[3].toLowerCase() as any,
-        });
+        instructions.push(
+          toInstruction({
+            receiver: match[1],
+            amount: match[2],
+            platform: match[3],
+          }),
+        );
       } else {
-        instructions.push({
-          receiver: match[1],
-          amount: parseFloat(match[3]),
-          platform: match[2].toLowerCase() as any,
-        });
+        instructions.push(
+          toInstruction({
+            receiver: match[1],
+            amount: match[3],
+            platform: match[2],
+          }),
+        );
       }
     }
   }
 
   if (instructions.length > 0) {
-    console.log(
+    print(
       `📋 Found ${instructions.length} payment(s):`,
       instructions
         .map(
           (inst) =>
-            `${inst.amount} USDC → @${inst.receiver} (${inst.platform})`,
+            `${formatAmount(inst.amount)} USDC → @${inst.receiver} (${inst.platform})`,
         )
         .join(", "),
     );
@@ -490,81 +565,144 @@ function fallbackParser(prompt: string): PaymentInstruction[] {
  * Main execution
  */
 async function main() {
-  const networkName = useSolana
-    ? baseURL?.includes("localhost") || baseURL?.includes("127.0.0.1")
-      ? "Solana Devnet"
-      : "Solana Mainnet"
-    : "Base";
+  await init();
 
-  console.log(`🚀 AI Agent: "${args.prompt}"`);
-  console.log(`🌐 Network: ${networkName}\n`);
+  print(`🚀 AI Agent: "${args.prompt}"`);
+  print(`🌐 Network: ${client.networkLabel}\n`);
 
   try {
     // Step 1: Parse the payment request
-    const instructions = await parsePaymentRequest(args.prompt);
+    let instructions = await parsePaymentRequest(args.prompt);
 
     if (instructions.length === 0) {
-      console.log(
+      print(
         "❌ No valid payment instructions found. Try: 'Send 0.5 USDC to alice on farcaster'",
       );
+      emitFailure("ai-agent", new Error("No valid payment instructions found"));
+      process.exit(1);
+    }
+
+    // Check the AI-parsed amounts against the spending policy before paying
+    const allowed = enforcePolicy(
+      "ai-agent",
+      instructions,
+      client.settlementNetwork,
+      { batch: instructions.length > 1 },
+    );
+    if (!allowed) {
       process.exit(1);
     }
 
-    // Step 2: Group by platform for batch processing
-    const byPlatform = instructions.reduce(
-      (acc, inst) => {
-        if (!acc[inst.platform]) acc[inst.platform] = [];
-        acc[inst.platform].push({
-          receiver: inst.receiver,
-          amount: inst.amount,
-        });
-        return acc;
+    // Let the user check what the AI understood before anything is signed
+    const sender = await client.connect();
+
+    if (!args["skip-balance-check"]) {
+      const payable = await checkBalance(
+        "ai-agent",
+        client,
+        sender,
+        instructions,
+        { trim: args.trim, singlePayments: true },
+      );
+      if (payable === 0) {
+        process.exit(1);
+      }
+      instructions = instructions.slice(0, payable);
+    }
+
+    const confirmed = await confirmPayments(
+      {
+        network: client.settlementNetwork,
+        networkLabel: client.networkLabel,
+        sender,
+        payments: instructions,
       },
-      {} as Record<string, Array<{ receiver: string; amount: number }>>,
+      args.yes,
     );
+    if (!confirmed) {
+      emitResult({
+        command: "ai-agent",
+        status: "cancelled",
+        prompt: args.prompt,
+        network: client.settlementNetwork,
+        payments: [],
+      });
+      process.exit(1);
+    }
 
-    // Step 3: Execute payments
-    console.log("\n💳 Processing payments...");
-    console.log("━".repeat(60));
-
-    for (const [platform, receivers] of Object.entries(byPlatform)) {
-      if (receivers.length === 1) {
-        // Single payment
-        const inst = instructions.find(
-          (i) =>
-            i.platform === platform && i.receiver === receivers[0].receiver,
-        )!;
-        await executePayment(inst);
+    // Step 2: Execute payments, one batch payment per platform
+    print("\n💳 Processing payments...");
+    print("━".repeat(60));
+
+    for (const [platform, group] of groupByPlatform(instructions)) {
+      if (group.length === 1) {
+        await executePayment(group[0]);
       } else {
-        // Batch payment
-        await executeBatchPayment(platform as any, receivers);
+        await executeBatchPayment(
+          platform,
+          group.map(({ receiver, amount, description }) => ({
+            receiver,
+            amount,
+            description,
+          })),
+        );
       }
     }
 
-    console.log("\n✅ All payments completed successfully!");
-    console.log("━".repeat(60));
-  } catch (error: any) {
-    console.error("\n💥 Error:", error.message);
+    print("\n✅ All payments completed successfully!");
+    print("━".repeat(60));
+
+    emitResult({
+      command: "ai-agent",
+      status: "success",
+      prompt: args.prompt,
+      network: client.settlementNetwork,
+      payments: records,
+    });
+  } catch (error: unknown) {
+    printError("\n💥 Error:", (error as Error).message);
+    emitResult({
+      command: "ai-agent",
+      status: "failed",
+      prompt: args.prompt,
+      network: client.settlementNetwork,
+      error: { message: (error as Error).message },
+      payments: records,
+    });
     process.exit(1);
   }
 }
 
-function displayReceipt(response: any, paymentDetails: any) {
-  console.log(
-    `✅ ${response.data?.msg || "Payment sent"} | 💰 ${paymentDetails.amount} ${paymentDetails.currency} → ${paymentDetails.receiver}`,
+/**
+ * Print the outcome of a single payment
+ *
+ * @param result - The settled payment
+ */
+function displayReceipt(result: PaymentResult) {
+  print(
+    `✅ ${result.message} | 💰 ${formatAmount(result.amount)} USDC → ${result.target.receiver}`,
   );
-  if (response.data?.txn_id) console.log(`� TXN: ${response.data.txn_id}`);
-  if (response.data?.receipt)
-    console.log(`� Receipt: ${response.data.receipt}`);
+  if (result.txnId) print(`🔗 TXN: ${result.txnId}`);
+  if (result.explorerUrl) print(`🔍 Explorer: ${result.explorerUrl}`);
+  if (result.receipt) print(`📄 Receipt: ${result.receipt}`);
 }
 
-function displayBatchReceipt(response: any, paymentDetails: any) {
-  console.log(
-    `✅ ${response.data?.msg || "Batch payment sent"} | 💰 ${paymentDetails.totalAmount} ${paymentDetails.currency} → ${paymentDetails.receivers.length} recipients`,
+/**
+ * Print the outcome of a batch payment
+ *
+ * @param result - The settled batch payment
+ */
+function displayBatchReceipt(result: BatchPaymentResult) {
+  print(
+    `✅ ${result.message} | 💰 ${formatAmount(result.totalAmount)} USDC → ${result.receivers.length} recipients`,
   );
-  if (response.data?.txn_id) console.log(`� TXN: ${response.data.txn_id}`);
-  if (response.data?.receipt)
-    console.log(`� Receipt: ${response.data.receipt}`);
+  if (result.txnId) print(`🔗 TXN: ${result.txnId}`);
+  if (result.explorerUrl) print(`🔍 Explorer: ${result.explorerUrl}`);
+  if (result.receipt) print(`📄 Receipt: ${result.receipt}`);
 }
 
-main();
+main().catch((error: unknown) => {
+  printError(`❌ ${(error as Error).message}`);
+  emitFailure("ai-agent", error);
+  process.exit(1);
+});
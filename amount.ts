@@ -0,0 +1,154 @@
+/**
+ * USDC amount parsing
+ *
+ * Amounts are handled as bigint USDC base units (6 decimals) so that totals
+ * are exact; they are only converted to decimal strings for display and for
+ * the API request body.
+ */
+
+export const USDC_DECIMALS = 6;
+
+const UNITS_PER_USDC = 10n ** BigInt(USDC_DECIMALS);
+
+/**
+ * Convert a non-negative decimal string to base units, rejecting more
+ * fractional digits than the unit supports.
+ *
+ * @param value - The decimal string, e.g. "1.5"
+ * @param decimals - Number of fractional digits one unit can be split into
+ * @param original - The original input, for error messages
+ * @returns The value scaled by 10^decimals
+ */
+function decimalToUnits(
+  value: string,
+  decimals: number,
+  original: string,
+): bigint {
+  const match = /^(\d*)(?:\.(\d*))?$/.exec(value);
+  if (!match || (match[1] === "" && !match[2])) {
+    throw new Error(`Invalid amount: ${original}`);
+  }
+
+  const [, whole, fraction = ""] = match;
+  if (fraction.length > decimals) {
+    throw new Error(
+      `Invalid amount: ${original}. Too many decimal places (USDC has ${USDC_DECIMALS})`,
+    );
+  }
+
+  return BigInt((whole || "0") + fraction.padEnd(decimals, "0"));
+}
+
+/**
+ * Parse amount from various formats into USDC base units:
+ * - "50¢" or "50 cents" -> 500000n
+ * - "$0.5" or "$1.00" -> 500000n / 1000000n
+ * - "1.5 USDC" -> 1500000n
+ * - "0.5" -> 500000n
+ *
+ * Negative, zero, exponent and over-precise amounts are rejected.
+ *
+ * @param amountStr - The amount string (or a number from a JSON document)
+ * @returns The amount in USDC base units
+ */
+export function parseAmount(amountStr: string | number): bigint {
+  const original = String(amountStr);
+  const trimmed = original.trim();
+
+  if (trimmed === "") {
+    throw new Error("Invalid amount: amount is empty");
+  }
+  if (/^[-−]|^\$\s*-/.test(trimmed)) {
+    throw new Error(`Invalid amount: ${original}. Amount must be positive`);
+  }
+  if (/\d[eE][+-]?\d/.test(trimmed)) {
+    throw new Error(
+      `Invalid amount: ${original}. Exponent notation is not supported, write the amount out in full`,
+    );
+  }
+
+  let units: bigint;
+
+  const centsMatch = /^(.+?)\s*(?:¢|cents?)$/i.exec(trimmed);
+  const usdcMatch = /^(.+?)\s*usdc$/i.exec(trimmed);
+
+  if (centsMatch) {
+    // Handle cents notation (50¢, 150 cents)
+    units = decimalToUnits(centsMatch[1], USDC_DECIMALS - 2, original);
+  } else if (usdcMatch) {
+    // Handle token notation (1.5 USDC)
+    units = decimalToUnits(usdcMatch[1], USDC_DECIMALS, original);
+  } else if (trimmed.startsWith("$")) {
+    // Handle dollar notation ($0.5 or $1.00)
+    units = decimalToUnits(trimmed.slice(1).trim(), USDC_DECIMALS, original);
+  } else {
+    // Handle plain decimal (0.5)
+    units = decimalToUnits(trimmed, USDC_DECIMALS, original);
+  }
+
+  if (units === 0n) {
+    throw new Error(`Invalid amount: ${original}. Amount must be positive`);
+  }
+
+  return units;
+}
+
+/**
+ * Format USDC base units as a decimal string without trailing zeros
+ *
+ * @param units - The amount in base units
+ * @returns The amount in USDC, e.g. "0.05"
+ */
+export function formatAmount(units: bigint): string {
+  const negative = units < 0n;
+  const abs = negative ? -units : units;
+  const whole = abs / UNITS_PER_USDC;
+  const fraction = (abs % UNITS_PER_USDC)
+    .toString()
+    .padStart(USDC_DECIMALS, "0")
+    .replace(/0+$/, "");
+
+  return `${negative ? "-" : ""}${whole}${fraction ? `.${fraction}` : ""}`;
+}
+
+/**
+ * Sum amounts exactly
+ *
+ * @param amounts - Amounts in base units
+ * @returns The total in base units
+ */
+export function sumAmounts(amounts: bigint[]): bigint {
+  return amounts.reduce((sum, amount) => sum + amount, 0n);
+}
+
+/**
+ * Convert base units to the decimal USDC number the Snack Money API expects
+ *
+ * @param units - The amount in base units
+ * @returns The amount in USDC
+ */
+export function toApiAmount(units: bigint): number {
+  return Number(formatAmount(units));
+}
+
+/**
+ * Reject whole dollar amounts like "$1" that the shell would have treated as
+ * positional parameters when unquoted.
+ *
+ * @param amountStr - The amount string as given on the command line
+ */
+export function assertNotShellDollarAmount(amountStr: string): void {
+  const trimmed = amountStr.trim();
+  if (!trimmed.startsWith("$")) {
+    return;
+  }
+
+  const dollarPart = trimmed.slice(1);
+  if (/^\d+$/.test(dollarPart)) {
+    const dollars = parseInt(dollarPart, 10);
+    const cents = dollars * 100;
+    throw new Error(
+      `Dollar amounts like $${dollars} can be interpreted as shell variables. Please use ${cents}¢ instead (or quote as '\\$${dollars}').`,
+    );
+  }
+}
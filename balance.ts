@@ -0,0 +1,123 @@
+import minimist from "minimist";
+import { formatUnits } from "viem";
+import { SnackMoneyClient } from "./client.js";
+import { formatAmount } from "./amount.js";
+import { selectWallet, walletNetworkLabel } from "./keystore.js";
+import { fetchBalance, formatNative } from "./rpc.js";
+import { getNetwork } from "./networks.js";
+import { applyProfile, Profile } from "./profiles.js";
+import { print, printError, setOutputFormat, emitResult } from "./output.js";
+
+/**
+ * Print usage for the balance command
+ *
+ * @param log - Output function (stdout for --help, stderr for errors)
+ */
+function printUsage(log: (message: string) => void): void {
+  log(
+    "Usage: snackmoney balance [address] [--network <network>] [--wallet <name>] [--rpc <url>]",
+  );
+  log(
+    "\nShows the USDC and gas balance of the address payments are sent from, or of any address.",
+  );
+  log("\nOptions:");
+  log("  --wallet <name>     Check a saved wallet (no password needed)");
+  log("  --profile <name>    Use a named profile from the config file");
+  log(
+    "  --rpc <url>         RPC endpoint (default: BASE_RPC_URL / SOLANA_RPC_URL or the public endpoint)",
+  );
+  log("  --output <format>   text (default), plain or json");
+  log("\nExamples:");
+  log("  snackmoney balance");
+  log("  snackmoney balance --wallet main");
+  log("  snackmoney balance --network solana-devnet");
+  log("  snackmoney balance 0x70997970C51812dc3A010C7d01b50e0d17dc79C8");
+  log("  snackmoney balance --network base --rpc http://127.0.0.1:8545");
+}
+
+const args = minimist(process.argv.slice(2), {
+  string: ["_", "network", "wallet", "rpc", "output", "profile"],
+  alias: { o: "output" },
+});
+
+if (args.help || args.h) {
+  printUsage(console.log);
+  process.exit(0);
+}
+
+let profile: Profile;
+try {
+  profile = applyProfile(args.profile);
+  setOutputFormat(args.output || profile.output);
+  if (args.network) {
+    getNetwork(args.network);
+  }
+} catch (error: unknown) {
+  printError(`❌ ${(error as Error).message}`);
+  printUsage(console.error);
+  process.exit(1);
+}
+
+/**
+ * Find the address and network to look up: an explicit address, a saved
+ * wallet, or the signer derived from the environment keys
+ *
+ * @returns The settlement network and address
+ */
+async function resolveAddress(): Promise<{ network: string; owner: string }> {
+  const requested: string | undefined =
+    args.network && getNetwork(args.network).id;
+  const preferred = requested || profile.network;
+
+  if (args._[0]) {
+    const owner = String(args._[0]);
+    return {
+      network: preferred || (owner.startsWith("0x") ? "base" : "solana"),
+      owner,
+    };
+  }
+
+  const wallet = selectWallet(args.wallet, preferred);
+  if (wallet) {
+    print(`🔐 Wallet ${wallet.name} (${walletNetworkLabel(wallet.network)})`);
+    return { network: preferred || wallet.network, owner: wallet.address };
+  }
+
+  const client = SnackMoneyClient.fromEnv({ network: preferred });
+  const owner = await client.connect();
+  return { network: client.settlementNetwork, owner };
+}
+
+/**
+ * Look up and print the balances
+ */
+async function main(): Promise<void> {
+  const { network, owner } = await resolveAddress();
+  const balance = await fetchBalance(network, owner, args.rpc);
+
+  print(`💰 Balance on ${getNetwork(network).name}`);
+  print(`   Address: ${balance.address}`);
+  print(`   USDC:    ${formatAmount(balance.usdc)} USDC`);
+  print(`   Gas:     ${formatNative(balance)}`);
+  print(`   RPC:     ${balance.rpcUrl}`);
+  if (balance.usdc === 0n) {
+    print(
+      `\n⚠️  No USDC on ${getNetwork(network).name}: fund ${balance.address} to pay`,
+    );
+  }
+
+  emitResult({
+    command: "balance",
+    ...balance,
+    usdc: formatAmount(balance.usdc),
+    usdcBaseUnits: balance.usdc,
+    native: formatUnits(balance.native, balance.nativeDecimals),
+    nativeBaseUnits: balance.native,
+    payments: [],
+  });
+}
+
+main().catch((error: unknown) => {
+  printError(`❌ ${(error as Error).message}`);
+  process.exit(1);
+});
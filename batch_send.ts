@@ -1,638 +1,1233 @@
 import minimist from "minimist";
 import axios from "axios";
-import { Hex } from "viem";
-import { privateKeyToAccount } from "viem/accounts";
-import {
-  x402Client,
-  wrapAxiosWithPayment,
-  decodePaymentResponseHeader,
-} from "@x402/axios";
-import { registerExactEvmScheme } from "@x402/evm/exact/client";
-import { registerExactSvmScheme } from "@x402/svm/exact/client";
-import { createKeyPairSignerFromBytes } from "@solana/kit";
-import bs58 from "bs58";
 import { readFileSync } from "fs";
 import { resolve } from "path";
+import {
+  SnackMoneyClient,
+  PaymentError,
+  BatchMetadata,
+  BatchPaymentResult,
+  PaymentQuote,
+  receiverOutcomes,
+} from "./client.js";
+import { attachLedger } from "./ledger.js";
+import {
+  BatchEntry,
+  BatchChunk,
+  BatchState,
+  RecipientState,
+  applyBatchFailure,
+  applyBatchResult,
+  chunkIdempotencyKey,
+  batchFingerprint,
+  chunkByPlatform,
+  createBatchState,
+  findPaidBatch,
+  groupByPlatform,
+  listBatchStates,
+  loadBatchState,
+  markSubmitted,
+  summarizeBatch,
+  toBatchEntries,
+  unpaidRecipients,
+} from "./batches.js";
+import { Platform, normalizePlatform, validateReceiver } from "./platforms.js";
+import { expandReference, isContactReference } from "./addressbook.js";
+import { parseAmount, formatAmount, sumAmounts } from "./amount.js";
+import {
+  printPaymentOptions,
+  printPaymentQuote,
+  printRetries,
+} from "./display.js";
+import { parseDelimited } from "./csv.js";
+import { enforcePolicy } from "./policy.js";
+import { confirmPayments } from "./confirm.js";
+import { checkBalance } from "./preflight.js";
+import { parseRate, runThrottled } from "./throttle.js";
+import { reportFormat, writeReport } from "./report.js";
+import {
+  unlockWallet,
+  walletNetworkLabel,
+  UnlockedWallet,
+} from "./keystore.js";
+import { applyProfile, Profile } from "./profiles.js";
+import {
+  print,
+  printError,
+  setOutputFormat,
+  emitResult,
+  paymentRecord,
+  errorRecord,
+  emitFailure,
+  PaymentRecord,
+} from "./output.js";
+
+/** Payments read from the batch input, with any batch-level metadata */
+interface ParsedBatch {
+  payments: BatchEntry[];
+  metadata: BatchMetadata;
+}
+
+/** A batch-pay request and its result or error */
+interface ChunkOutcome extends BatchChunk<RecipientState> {
+  result?: BatchPaymentResult;
+  error?: PaymentError;
+}
 
-const privateKey = process.env.EVM_PRIVATE_KEY as Hex;
-const svmPrivateKey = process.env.SVM_PRIVATE_KEY as string;
-const baseURL = process.env.RESOURCE_SERVER_URL || "https://api.snack.money";
+/**
+ * Payments for an @alias or group:<tag> receiver, each for the full amount
+ *
+ * @param reference - The contact or group reference
+ * @param amount - Amount per receiver in base units
+ * @param description - Memo for each payment
+ * @returns One payment per contact
+ */
+function contactEntries(
+  reference: string,
+  amount: bigint,
+  description?: string,
+): BatchEntry[] {
+  return expandReference(reference).map((target) => ({
+    ...target,
+    amount,
+    description,
+  }));
+}
 
 /**
- * Parse amount from various formats:
- * - "50¢" -> 0.50
- * - "$0.5" or "$0.50" -> 0.50
- * - "0.5" -> 0.50
+ * Parse comma-separated receivers format:
+ * "x/user1:1¢,user2:$0.5,user3:75¢"
+ *
+ * Contacts and groups need no platform and mix with plain receivers:
+ * "@toly:50¢,group:core-devs:25¢" or "x/user1:1¢,@toly:50¢"
  *
- * @param amountStr
+ * @param input - The comma-separated input
+ * @returns The payments
  */
-function parseAmount(amountStr: string | number): number {
-  if (typeof amountStr === "number") {
-    return amountStr;
+function parseCommaSeparated(input: string): ParsedBatch {
+  let platform: Platform | undefined;
+  let receiversStr = input;
+
+  if (!isContactReference(input)) {
+    // Split by first slash to get platform and receivers
+    const firstSlash = input.indexOf("/");
+    if (firstSlash === -1) {
+      throw new Error(
+        `Invalid format: ${input}. Expected: platform/receiver1:amount1,receiver2:amount2`,
+      );
+    }
+    platform = normalizePlatform(input.substring(0, firstSlash));
+    receiversStr = input.substring(firstSlash + 1);
   }
 
-  const trimmed = amountStr.trim();
+  // Split by comma to get individual receiver:amount pairs
+  const pairs = receiversStr.split(",");
+  const payments: BatchEntry[] = [];
 
-  // Handle cents notation (50¢)
-  if (trimmed.endsWith("¢")) {
-    const cents = parseFloat(trimmed.slice(0, -1));
-    if (isNaN(cents)) {
-      throw new Error(`Invalid cents amount: ${amountStr}`);
+  for (const pair of pairs) {
+    const colonIndex = pair.lastIndexOf(":");
+    if (colonIndex === -1) {
+      throw new Error(`Missing amount for ${pair}. Format: receiver:amount`);
     }
-    return cents / 100;
-  }
 
-  // Handle dollar notation ($0.5 or $0.50)
-  if (trimmed.startsWith("$")) {
-    const dollars = parseFloat(trimmed.slice(1));
-    if (isNaN(dollars)) {
-      throw new Error(`Invalid dollar amount: ${amountStr}`);
+    const receiver = pair.substring(0, colonIndex);
+    const amountStr = pair.substring(colonIndex + 1);
+
+    if (isContactReference(receiver)) {
+      payments.push(...contactEntries(receiver, parseAmount(amountStr)));
+      continue;
+    }
+    if (!platform) {
+      throw new Error(
+        `No platform for ${receiver}. Use platform/receiver:amount, @alias:amount or group:<tag>:amount`,
+      );
     }
-    return dollars;
-  }
 
-  // Handle plain decimal (0.5)
-  const amount = parseFloat(trimmed);
-  if (isNaN(amount)) {
-    throw new Error(`Invalid amount: ${amountStr}`);
-  }
-  return amount;
-}
+    // Validate receiver for this platform
+    validateReceiver(platform, receiver);
 
-/**
- * Validate X/Twitter username
- * Rules: 1-15 characters, alphanumeric and underscores only
- *
- * @param username
- */
-function validateXUsername(username: string): void {
-  if (!/^[a-zA-Z0-9_]{1,15}$/.test(username)) {
-    throw new Error(
-      `Invalid X/Twitter username: ${username}. Must be 1-15 alphanumeric characters or underscores.`,
-    );
+    payments.push({
+      platform,
+      receiver,
+      amount: parseAmount(amountStr),
+    });
   }
+
+  return { payments, metadata: {} };
 }
 
+type InputFormat = "json" | "csv" | "tsv";
+
 /**
- * Validate Farcaster username
- * Rules: 1-16 characters, alphanumeric, hyphens, and underscores, must start with alphanumeric
+ * Detect a payout file format from its name or URL path
  *
- * @param username
+ * @param name - File path or URL
+ * @returns The format, if the extension is recognised
  */
-function validateFarcasterUsername(username: string): void {
-  if (!/^[a-zA-Z0-9][a-zA-Z0-9_-]{0,15}$/.test(username)) {
-    throw new Error(
-      `Invalid Farcaster username: ${username}. Must be 1-16 characters, start with alphanumeric, contain only letters, numbers, hyphens, and underscores.`,
-    );
-  }
+function formatFromName(name: string): InputFormat | undefined {
+  const match = name.toLowerCase().match(/\.(json|csv|tsv)(?:[?#].*)?$/);
+  return match ? (match[1] as InputFormat) : undefined;
 }
 
 /**
- * Validate GitHub username
- * Rules: 1-39 characters, alphanumeric and hyphens, cannot start/end with hyphen, no consecutive hyphens
+ * Load a payout file from a local path
  *
- * @param username
+ * @param filePath - Path to the file, optionally prefixed with file:
+ * @returns The file contents
  */
-function validateGitHubUsername(username: string): void {
-  if (
-    !/^[a-zA-Z0-9]([a-zA-Z0-9-]{0,37}[a-zA-Z0-9])?$/.test(username) ||
-    /--/.test(username)
-  ) {
+async function loadFromFile(filePath: string): Promise<string> {
+  try {
+    // Remove file: prefix if present
+    const cleanPath = filePath.startsWith("file:")
+      ? filePath.substring(5)
+      : filePath;
+    const absolutePath = resolve(cleanPath);
+    return readFileSync(absolutePath, "utf-8");
+  } catch (error: unknown) {
     throw new Error(
-      `Invalid GitHub username: ${username}. Must be 1-39 alphanumeric characters or hyphens, cannot start/end with hyphen or have consecutive hyphens.`,
+      `Failed to read file ${filePath}: ${(error as Error).message}`,
     );
   }
 }
 
 /**
- * Validate email address
+ * Load a payout file from an HTTP/HTTPS URL
  *
- * @param email
+ * @param url - The URL to fetch
+ * @returns The response body and its format (from the extension or content type)
  */
-function validateEmail(email: string): void {
-  const emailRegex = /^[a-zA-Z0-9._%+-]+@[a-zA-Z0-9.-]+\.[a-zA-Z]{2,}$/;
-  if (!emailRegex.test(email)) {
-    throw new Error(`Invalid email address: ${email}`);
+async function loadFromURL(
+  url: string,
+): Promise<{ body: string; format: InputFormat }> {
+  try {
+    const response = await axios.get(url, { responseType: "text" });
+    const contentType = String(response.headers["content-type"] || "");
+    const format =
+      formatFromName(new URL(url).pathname) ||
+      (contentType.includes("text/csv")
+        ? "csv"
+        : contentType.includes("tab-separated-values")
+          ? "tsv"
+          : "json");
+    return { body: response.data, format };
+  } catch (error: unknown) {
+    throw new Error(`Failed to fetch ${url}: ${(error as Error).message}`);
   }
 }
 
 /**
- * Validate web domain
- * Rules: Valid domain name format
+ * Parse a CSV or TSV payout list with a header row
+ * (platform,receiver,amount,description)
+ *
+ * Every invalid row is reported with its line number.
  *
- * @param domain
+ * @param text - The file contents
+ * @param format - csv or tsv
+ * @returns The payments
  */
-function validateWebDomain(domain: string): void {
-  const domainRegex =
-    /^([a-zA-Z0-9]([a-zA-Z0-9-]{0,61}[a-zA-Z0-9])?\.)+[a-zA-Z]{2,}$/;
-  if (!domainRegex.test(domain)) {
-    throw new Error(
-      `Invalid web domain: ${domain}. Must be a valid domain name (e.g., snack.money)`,
-    );
+function parseDelimitedPayments(
+  text: string,
+  format: "csv" | "tsv",
+): ParsedBatch {
+  const rows = parseDelimited(text, format === "tsv" ? "\t" : ",");
+  if (rows.length === 0) {
+    throw new Error(`The ${format.toUpperCase()} input is empty`);
   }
-}
 
-/**
- * Validate receiver based on platform
- *
- * @param platform
- * @param receiver
- */
-function validateReceiver(platform: string, receiver: string): void {
-  switch (platform) {
-    case "x":
-      validateXUsername(receiver);
-      break;
-    case "farcaster":
-      validateFarcasterUsername(receiver);
-      break;
-    case "github":
-      validateGitHubUsername(receiver);
-      break;
-    case "email":
-      validateEmail(receiver);
-      break;
-    case "web":
-      validateWebDomain(receiver);
-      break;
+  const header = rows[0].fields.map((name) => name.trim().toLowerCase());
+  const column = (name: string) => header.indexOf(name);
+  for (const required of ["platform", "receiver", "amount"]) {
+    if (column(required) === -1) {
+      throw new Error(
+        `Line ${rows[0].line}: header must contain "${required}" (expected: platform,receiver,amount,description)`,
+      );
+    }
   }
-}
 
-/**
- * Normalize platform name with domain extensions:
- * - "x.com", "twitter.com", "twitter", "x" -> "x"
- * - "farcaster.xyz", "farcaster" -> "farcaster"
- * - "github.com", "github" -> "github"
- *
- * @param platform
- */
-function normalizePlatform(platform: string): string {
-  const lower = platform.toLowerCase();
-
-  const platformMap: Record<string, string> = {
-    x: "x",
-    "x.com": "x",
-    twitter: "x",
-    "twitter.com": "x",
-    farcaster: "farcaster",
-    "farcaster.xyz": "farcaster",
-    github: "github",
-    "github.com": "github",
-    email: "email",
-    web: "web",
-  };
+  const payments: BatchEntry[] = [];
+  const errors: string[] = [];
+
+  for (const { line, fields } of rows.slice(1)) {
+    const value = (name: string) => (fields[column(name)] ?? "").trim();
+    try {
+      const receiver = value("receiver");
+      if (!receiver) {
+        throw new Error("missing receiver");
+      }
+      if (!value("amount")) {
+        throw new Error("missing amount");
+      }
+      const amount = parseAmount(value("amount"));
+      const description =
+        column("description") === -1
+          ? undefined
+          : value("description") || undefined;
+
+      // Contacts and groups carry their own platform
+      if (isContactReference(receiver)) {
+        payments.push(...contactEntries(receiver, amount, description));
+        continue;
+      }
+
+      if (!value("platform")) {
+        throw new Error("missing platform");
+      }
+      const platform = normalizePlatform(value("platform"));
+      validateReceiver(platform, receiver);
+
+      payments.push({ platform, receiver, amount, description });
+    } catch (error: unknown) {
+      errors.push(`Line ${line}: ${(error as Error).message}`);
+    }
+  }
 
-  const normalized = platformMap[lower];
-  if (!normalized) {
+  if (errors.length > 0) {
     throw new Error(
-      `Unknown platform: ${platform}. Supported: x, twitter, farcaster, github, email, web (with optional domain extensions)`,
+      `Invalid ${format.toUpperCase()} rows:\n   ${errors.join("\n   ")}`,
     );
   }
+  if (payments.length === 0) {
+    throw new Error(`The ${format.toUpperCase()} input has no payment rows`);
+  }
 
-  return normalized;
+  return { payments, metadata: {} };
 }
 
 /**
- * Parse comma-separated receivers format:
- * "x/user1:1¢,user2:$0.5,user3:75¢"
+ * Parse a payout document in the given format
  *
- * @param input
+ * @param body - The document text
+ * @param format - The document format
+ * @returns The payments
  */
-function parseCommaSeparated(input: string): {
-  platform: string;
-  payments: Array<{ receiver: string; amount: number }>;
-} {
-  // Split by first slash to get platform and receivers
-  const firstSlash = input.indexOf("/");
-  if (firstSlash === -1) {
-    throw new Error(
-      `Invalid format: ${input}. Expected: platform/receiver1:amount1,receiver2:amount2`,
-    );
-  }
-
-  const platformStr = input.substring(0, firstSlash);
-  const receiversStr = input.substring(firstSlash + 1);
-
-  const platform = normalizePlatform(platformStr);
-
-  // Split by comma to get individual receiver:amount pairs
-  const pairs = receiversStr.split(",");
-  const payments: Array<{ receiver: string; amount: number }> = [];
-
-  for (const pair of pairs) {
-    const colonIndex = pair.lastIndexOf(":");
-    if (colonIndex === -1) {
-      throw new Error(`Missing amount for ${pair}. Format: receiver:amount`);
-    }
-
-    const receiver = pair.substring(0, colonIndex);
-    const amountStr = pair.substring(colonIndex + 1);
-
-    // Validate receiver for this platform
-    validateReceiver(platform, receiver);
-
-    payments.push({
-      receiver,
-      amount: parseAmount(amountStr),
-    });
-  }
-
-  return { platform, payments };
+function parsePayments(body: string, format: InputFormat): ParsedBatch {
+  return format === "json"
+    ? parseJSONPayments(JSON.parse(body))
+    : parseDelimitedPayments(body, format);
 }
 
 /**
- * Load JSON from file path
+ * Read an optional string field of a JSON object
  *
- * @param filePath
+ * @param object - The JSON object
+ * @param field - The field name
+ * @param context - Prefix for the error, e.g. the payment it belongs to
+ * @returns The string, or undefined when the field is missing
  */
-async function loadFromFile(filePath: string): Promise<any> {
-  try {
-    // Remove file: prefix if present
-    const cleanPath = filePath.startsWith("file:")
-      ? filePath.substring(5)
-      : filePath;
-    const absolutePath = resolve(cleanPath);
-    const content = readFileSync(absolutePath, "utf-8");
-    return JSON.parse(content);
-  } catch (error: any) {
-    throw new Error(`Failed to read file ${filePath}: ${error.message}`);
+function optionalString(
+  object: Record<string, unknown>,
+  field: string,
+  context = "",
+): string | undefined {
+  const value = object[field];
+  if (value !== undefined && typeof value !== "string") {
+    throw new Error(`${context}"${field}" must be a string`);
   }
+  return value;
 }
 
 /**
- * Load JSON from HTTP/HTTPS URL
+ * A JSON value as an object, so its fields can be checked one by one
  *
- * @param url
+ * @param value - The parsed JSON value
+ * @returns The object; empty for anything that is not one
  */
-async function loadFromURL(url: string): Promise<any> {
-  try {
-    const response = await axios.get(url);
-    return response.data;
-  } catch (error: any) {
-    throw new Error(`Failed to fetch ${url}: ${error.message}`);
-  }
+function jsonObject(value: unknown): Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value)
+    ? (value as Record<string, unknown>)
+    : {};
 }
 
 /**
  * Parse JSON format payments
  *
- * @param data
+ * Each payment may carry its own "platform" and "description"; otherwise the
+ * top-level "platform" applies. Top-level "sender_username", "campaign" and
+ * "reference" are sent with every batch payment.
+ *
+ * @param data - The parsed JSON document
+ * @returns The payments and batch metadata
  */
-function parseJSONPayments(data: any): {
-  platform: string;
-  payments: Array<{ receiver: string; amount: number }>;
-} {
-  if (!data.platform) {
-    throw new Error('JSON must contain "platform" field');
-  }
-  if (!Array.isArray(data.payments)) {
+function parseJSONPayments(data: unknown): ParsedBatch {
+  const document = jsonObject(data);
+  if (!Array.isArray(document.payments)) {
     throw new Error('JSON must contain "payments" array');
   }
+  const metadata: BatchMetadata = {
+    senderUsername: optionalString(document, "sender_username") || undefined,
+    campaign: optionalString(document, "campaign") || undefined,
+    reference: optionalString(document, "reference") || undefined,
+  };
 
-  const platform = normalizePlatform(data.platform);
-  const payments: Array<{ receiver: string; amount: number }> = [];
+  const topLevelPlatform = optionalString(document, "platform");
+  const defaultPlatform = topLevelPlatform
+    ? normalizePlatform(topLevelPlatform)
+    : undefined;
+  const payments: BatchEntry[] = [];
 
-  for (const payment of data.payments) {
+  for (const [index, item] of document.payments.entries()) {
+    const payment = jsonObject(item);
     if (!payment.receiver) {
       throw new Error('Each payment must have "receiver" field');
     }
+    const receiver = String(payment.receiver);
+    const context = `Payment ${index + 1} (${receiver}): `;
     if (payment.amount === undefined) {
       throw new Error('Each payment must have "amount" field');
     }
+    if (
+      typeof payment.amount !== "string" &&
+      typeof payment.amount !== "number"
+    ) {
+      throw new Error(`${context}"amount" must be a string or a number`);
+    }
+    const amount = parseAmount(payment.amount);
+    const description =
+      optionalString(payment, "description", context)?.trim() || undefined;
+    const paymentPlatform = optionalString(payment, "platform", context);
+
+    // Contacts and groups carry their own platform
+    if (isContactReference(receiver)) {
+      payments.push(...contactEntries(receiver, amount, description));
+      continue;
+    }
+
+    if (!paymentPlatform && !defaultPlatform) {
+      throw new Error(
+        `Payment ${index + 1} (${receiver}) has no "platform" and there is no top-level "platform" field`,
+      );
+    }
+
+    const platform = paymentPlatform
+      ? normalizePlatform(paymentPlatform)
+      : defaultPlatform!;
 
     // Validate receiver for this platform
-    validateReceiver(platform, payment.receiver);
+    validateReceiver(platform, receiver);
 
-    payments.push({
-      receiver: payment.receiver,
-      amount: parseAmount(payment.amount),
-    });
+    payments.push({ platform, receiver, amount, description });
   }
 
-  return { platform, payments };
+  return { payments, metadata };
 }
 
-const args = minimist(process.argv.slice(2));
-
-let receiverIdentity: string;
-let receivers: Array<{ receiver: string; amount: number }>;
-let useSolana: boolean;
-
-if (args.help || args.h) {
-  console.log("Usage: snackmoney batch-send <input> [--network <base|solana>]");
-  console.log("\nInput formats:");
-  console.log("  1. Comma-separated: x/jessepollak:1¢,aeyakovenko:$0.5");
-  console.log(
+/**
+ * Print usage for the batch-send command
+ *
+ * @param log - Output function (stdout for --help, stderr for errors)
+ */
+function printUsage(log: (message: string) => void): void {
+  log(
+    "Usage: snackmoney batch-send <input> [--network <network>] [--wallet <name>] [--dry-run] [--yes]",
+  );
+  log("       snackmoney batch-send --resume <batch-id> [--retry-unknown]");
+  log("\nInput formats:");
+  log("  1. Comma-separated: x/jessepollak:1¢,aeyakovenko:$0.5");
+  log(
     '  2. JSON string: \'{"platform":"x","payments":[{"receiver":"jessepollak","amount":"1¢"}]}\'',
   );
-  console.log("  3. File path: ./payments.json or file:./payments.json");
-  console.log("  4. HTTP URL: https://example.com/payments.json");
-  console.log("\nExamples:");
-  console.log("  snackmoney batch-send x/jessepollak:1¢,aeyakovenko:$0.5");
-  console.log("  snackmoney batch-send x.com/jessepollak:1¢,0xmesuthere:$0.5");
-  console.log(
-    "  snackmoney batch-send twitter.com/jessepollak:1¢,aeyakovenko:$0.5",
+  log("  3. File path: ./payments.json or file:./payments.json");
+  log(
+    "  4. CSV/TSV file: ./payouts.csv, ./payouts.tsv (header: platform,receiver,amount,description)",
   );
-  console.log("  snackmoney batch-send farcaster.xyz/toly:50¢,mesut:25¢");
-  console.log("  snackmoney batch-send ./payments.json");
-  console.log("  snackmoney batch-send https://example.com/payments.json");
-  process.exit(0);
-}
-
-if (args._.length === 0) {
-  console.error(
-    "Usage: snackmoney batch-send <input> [--network <base|solana>]",
+  log("  5. HTTP URL: https://example.com/payments.json or .../payouts.csv");
+  log(
+    "  Contacts (see snackmoney contacts) work as receivers in every format: @toly:50¢,group:core-devs:25¢",
   );
-  console.error("\nInput formats:");
-  console.error("  1. Comma-separated: x/jessepollak:1¢,aeyakovenko:$0.5");
-  console.error(
-    '  2. JSON string: \'{"platform":"x","payments":[{"receiver":"jessepollak","amount":"1¢"}]}\'',
+  log("\nOptions:");
+  log(
+    "  --network <id>     base, base-sepolia, solana, solana-devnet or a custom network",
   );
-  console.error("  3. File path: ./payments.json or file:./payments.json");
-  console.error("  4. HTTP URL: https://example.com/payments.json");
-  console.error("\nExamples:");
-  console.error("  snackmoney batch-send x/jessepollak:1¢,aeyakovenko:$0.5");
-  console.error(
-    "  snackmoney batch-send x.com/jessepollak:1¢,0xmesuthere:$0.5",
+  log("  --wallet <name>    Sign with a saved wallet (see snackmoney wallet)");
+  log(
+    "  --profile <name>   Use a named profile from the config file (see snackmoney config)",
   );
-  console.error(
-    "  snackmoney batch-send twitter.com/jessepollak:1¢,aeyakovenko:$0.5",
+  log("  --batch-id <id>    Id for the batch state (generated by default)");
+  log("  --resume <id>      Retry only the unpaid recipients of a saved batch");
+  log("  --resume           List batches that still have unpaid recipients");
+  log(
+    "  --retry-unknown    With --resume, also retry recipients whose outcome is unknown",
   );
-  console.error("  snackmoney batch-send farcaster.xyz/toly:50¢,mesut:25¢");
-  console.error("  snackmoney batch-send ./payments.json");
-  console.error("  snackmoney batch-send https://example.com/payments.json");
-  process.exit(1);
+  log("  --force            Pay even if the same payout list was already paid");
+  log(
+    "  --trim             Pay only the recipients that fit when the USDC balance is short",
+  );
+  log("  --skip-balance-check  Do not check the USDC balance before paying");
+  log(
+    "  --report <path>    Write every receiver's outcome to a .csv, .tsv or .json file",
+  );
+  log(
+    "  --chunk-size <n>   Pay at most n recipients per batch-pay request (default: all of a platform)",
+  );
+  log(
+    "  --concurrency <n>  Batch-pay requests in flight at the same time (default: 1)",
+  );
+  log(
+    "  --rate <rate>      Most batch-pay requests started per second, or e.g. 30/m or 500/h",
+  );
+  log(
+    "  --yes, -y          Skip the confirmation prompt (required without a terminal above SNACKMONEY_CONFIRM_THRESHOLD)",
+  );
+  log("\nExamples:");
+  log("  snackmoney batch-send x/jessepollak:1¢,aeyakovenko:$0.5");
+  log("  snackmoney batch-send x.com/jessepollak:1¢,0xmesuthere:$0.5");
+  log("  snackmoney batch-send twitter.com/jessepollak:1¢,aeyakovenko:$0.5");
+  log("  snackmoney batch-send farcaster.xyz/toly:50¢,mesut:25¢");
+  log("  snackmoney batch-send group:core-devs:25¢");
+  log("  snackmoney batch-send ./payments.json");
+  log("  snackmoney batch-send ./payouts.csv");
+  log("  snackmoney batch-send https://example.com/payments.json");
+  log("  snackmoney batch-send ./payments.json --dry-run");
+  log("  snackmoney batch-send ./payouts.csv --report payouts-report.csv");
+  log(
+    "  snackmoney batch-send ./airdrop.csv --chunk-size 200 --concurrency 4 --rate 30/m",
+  );
+  log("  snackmoney batch-send --resume 20250131-a1b2c3");
 }
 
 /**
+ * Parse a count option
  *
+ * @param value - The option value
+ * @param name - Option name, for error messages
+ * @returns The count
+ */
+function positiveInteger(value: string, name: string): number {
+  const number = Number(value);
+  if (!Number.isInteger(number) || number < 1) {
+    throw new Error(`Invalid ${name}: ${value}. Use a whole number above 0`);
+  }
+  return number;
+}
+
+const args = minimist(process.argv.slice(2), {
+  string: [
+    "_",
+    "resume",
+    "batch-id",
+    "output",
+    "wallet",
+    "profile",
+    "chunk-size",
+    "concurrency",
+    "rate",
+    "report",
+  ],
+  boolean: ["yes", "trim", "skip-balance-check"],
+  alias: { o: "output", y: "yes" },
+});
+
+let entries: BatchEntry[];
+let metadata: BatchMetadata = {};
+let client: SnackMoneyClient;
+let batch: BatchState;
+let pending: RecipientState[];
+let profile: Profile;
+let chunkSize: number | undefined;
+let concurrency = 1;
+let spacingMs = 0;
+
+if (args.help || args.h) {
+  printUsage(console.log);
+  process.exit(0);
+}
+
+try {
+  profile = applyProfile(args.profile);
+  setOutputFormat(args.output || profile.output);
+} catch (error: unknown) {
+  console.error(`❌ ${(error as Error).message}`);
+  emitFailure("batch-send", error);
+  process.exit(1);
+}
+
+if (args._.length === 0 && args.resume === undefined) {
+  printUsage(console.error);
+  emitFailure("batch-send", new Error("Missing payments to send"));
+  process.exit(1);
+}
+
+try {
+  if (args["chunk-size"] !== undefined) {
+    chunkSize = positiveInteger(args["chunk-size"], "chunk size");
+  }
+  if (args.concurrency !== undefined) {
+    concurrency = positiveInteger(args.concurrency, "concurrency");
+  }
+  if (args.rate !== undefined) {
+    spacingMs = parseRate(args.rate);
+  }
+  if (args.report !== undefined) {
+    reportFormat(args.report);
+  }
+} catch (error: unknown) {
+  printError(`❌ ${(error as Error).message}`);
+  printError("");
+  printUsage(console.error);
+  emitFailure("batch-send", error);
+  process.exit(1);
+}
+
+/**
+ * Parse the batch input argument into a list of payments
  */
 async function parseInput(): Promise<void> {
   try {
-    const input = args._[0];
+    const input = String(args._[0]);
 
-    let platform: string;
-    let payments: Array<{ receiver: string; amount: number }>;
+    let parsed: ParsedBatch;
 
     // Check input type
     if (input.startsWith("http://") || input.startsWith("https://")) {
       // HTTP/HTTPS URL
-      const data = await loadFromURL(input);
-      const parsed = parseJSONPayments(data);
-      platform = parsed.platform;
-      payments = parsed.payments;
-    } else if (input.startsWith("file:") || input.endsWith(".json")) {
-      // File path
-      const data = await loadFromFile(input);
-      const parsed = parseJSONPayments(data);
-      platform = parsed.platform;
-      payments = parsed.payments;
+      const { body, format } = await loadFromURL(input);
+      parsed = parsePayments(body, format);
+    } else if (input.startsWith("file:") || formatFromName(input)) {
+      // File path (.json, .csv or .tsv)
+      parsed = parsePayments(
+        await loadFromFile(input),
+        formatFromName(input) || "json",
+      );
     } else if (input.startsWith("{")) {
       // JSON string
-      const data = JSON.parse(input);
-      const parsed = parseJSONPayments(data);
-      platform = parsed.platform;
-      payments = parsed.payments;
+      parsed = parseJSONPayments(JSON.parse(input));
     } else {
       // Comma-separated format
-      const parsed = parseCommaSeparated(input);
-      platform = parsed.platform;
-      payments = parsed.payments;
+      parsed = parseCommaSeparated(input);
     }
 
-    receiverIdentity = platform;
-    receivers = payments;
-  } catch (error: any) {
-    console.error(`❌ ${error.message}`);
-    console.error(
-      "\nUsage: snackmoney batch-send <input> [--network <base|solana>]",
+    entries = parsed.payments;
+    metadata = parsed.metadata;
+  } catch (error: unknown) {
+    printError(`❌ ${(error as Error).message}`);
+    printError("");
+    printUsage(console.error);
+    emitFailure("batch-send", error);
+    process.exit(1);
+  }
+}
+
+/**
+ * Print saved batches that still have recipients to pay
+ */
+function printIncompleteBatches(): void {
+  const incomplete = listBatchStates().filter(
+    (state) => unpaidRecipients(state, true).length > 0,
+  );
+  if (incomplete.length === 0) {
+    print("No incomplete batches");
+    return;
+  }
+
+  print("📦 Incomplete batches:\n");
+  for (const state of incomplete) {
+    const counts = summarizeBatch(state);
+    print(
+      `   ${state.id}  ${[...groupByPlatform(state.recipients).keys()].join(",")}  ${state.network}  ${counts.paid}/${state.recipients.length} paid, ${counts.failed} failed, ${counts.pending} pending, ${counts.submitted} unknown`,
+    );
+  }
+  print("\nResume with: snackmoney batch-send --resume <batch-id>");
+}
+
+/**
+ * Load a saved batch and select the recipients that still have to be paid
+ *
+ * @param id - The batch id
+ */
+function loadResumedBatch(id: string): void {
+  try {
+    batch = loadBatchState(id);
+  } catch (error: unknown) {
+    printError(`❌ ${(error as Error).message}`);
+    emitFailure("batch-send", error);
+    process.exit(1);
+  }
+
+  pending = unpaidRecipients(batch, args["retry-unknown"]);
+  entries = toBatchEntries(pending);
+  metadata = {
+    senderUsername: batch.senderUsername,
+    campaign: batch.campaign,
+    reference: batch.reference,
+  };
+
+  const counts = summarizeBatch(batch);
+  print(
+    `🔁 Resuming batch ${batch.id}: ${counts.paid}/${batch.recipients.length} paid, ${counts.failed} failed, ${counts.pending} pending, ${counts.submitted} unknown`,
+  );
+  if (counts.submitted > 0 && !args["retry-unknown"]) {
+    print(
+      `⚠️  Skipping ${counts.submitted} recipients whose outcome is unknown. Check their receipts, then use --retry-unknown to pay them again.`,
     );
-    console.error("\nInput formats:");
-    console.error("  1. Comma-separated: x/jessepollak:1¢,aeyakovenko:$0.5");
-    console.error(
-      '  2. JSON string: \'{"platform":"x","payments":[{"receiver":"jessepollak","amount":"1¢"}]}\'',
+  }
+  if (pending.length === 0) {
+    print("✅ Nothing left to pay");
+    process.exit(0);
+  }
+}
+
+/**
+ * Record a new batch, refusing to repeat a payout list that was already paid
+ */
+function startBatch(): void {
+  const earlier = findPaidBatch(batchFingerprint(entries));
+  if (earlier && !args.force) {
+    const message = `This payout list was already sent as batch ${earlier.id} (${earlier.createdAt})`;
+    printError(`❌ ${message}`);
+    printError(
+      `   Resume it with --resume ${earlier.id}, or pass --force to pay everyone again`,
     );
-    console.error("  3. File path: ./payments.json or file:./payments.json");
-    console.error("  4. HTTP URL: https://example.com/payments.json");
+    emitFailure("batch-send", new Error(message));
     process.exit(1);
   }
+
+  try {
+    batch = createBatchState({
+      id: args["batch-id"],
+      source: String(args._[0]),
+      network: client.settlementNetwork,
+      entries,
+      metadata,
+    });
+  } catch (error: unknown) {
+    printError(`❌ ${(error as Error).message}`);
+    emitFailure("batch-send", error);
+    process.exit(1);
+  }
+  pending = batch.recipients;
 }
 
-// Initialization function
 /**
- *
+ * Parse input and select the network before paying
  */
 async function init(): Promise<void> {
-  // Parse input (async)
-  await parseInput();
-
-  // Input validations
-  const allowedIdentities = ["x", "farcaster", "web", "email", "github"];
-  if (!allowedIdentities.includes(receiverIdentity)) {
-    console.error(
-      `❌ Platform must be one of: ${allowedIdentities.join(", ")}`,
+  if (args.resume === "") {
+    printIncompleteBatches();
+    process.exit(0);
+  }
+
+  if (args.resume) {
+    loadResumedBatch(args.resume);
+  } else {
+    // Parse input (async)
+    await parseInput();
+  }
+
+  // A resumed batch stays on the network it was started on
+  const network: string | undefined =
+    args.network || batch?.network || profile.network;
+  let unlocked: UnlockedWallet | undefined;
+  try {
+    unlocked = await unlockWallet(args.wallet, network);
+    client = SnackMoneyClient.fromEnv({
+      network,
+      memo: profile.memo,
+      ...unlocked?.keys,
+    });
+    attachLedger(client, "batch-send");
+    printRetries(client);
+  } catch (error: unknown) {
+    printError(`❌ ${(error as Error).message}`);
+    emitFailure("batch-send", error);
+    process.exit(1);
+  }
+
+  if (batch && batch.network !== client.settlementNetwork) {
+    const message = `Batch ${batch.id} was started on ${batch.network}, not ${client.settlementNetwork}`;
+    printError(`❌ ${message}`);
+    emitFailure("batch-send", new Error(message));
+    process.exit(1);
+  }
+
+  if (unlocked) {
+    print(
+      `🔐 Using wallet ${unlocked.wallet.name} (${walletNetworkLabel(unlocked.wallet.network)}: ${unlocked.wallet.address})`,
+    );
+  } else if (!network) {
+    print(
+      client.network === "solana"
+        ? "ℹ️  Auto-detected network: Solana (based on SVM_PRIVATE_KEY)"
+        : "ℹ️  Auto-detected network: Base (based on EVM_PRIVATE_KEY)",
     );
-    console.error(`   Got: ${receiverIdentity}`);
-    console.error(`   Tip: Use 'twitter' or 'x' for X/Twitter payments`);
+  }
+
+  const allowed = enforcePolicy(
+    "batch-send",
+    entries,
+    client.settlementNetwork,
+    { batch: true, dryRun: args["dry-run"] },
+  );
+  if (!allowed) {
     process.exit(1);
   }
 
-  // Validate network parameter if provided
-  const allowedNetworks = ["base", "solana"];
+  if (!batch && !args["dry-run"]) {
+    startBatch();
+  }
+}
 
-  // Check which private keys are available
-  const hasEvmKey = !!privateKey;
-  const hasSvmKey = !!svmPrivateKey;
+/**
+ * Batch payment example supporting both Ethereum and Solana signers
+ *
+ * Recipients are grouped into one batch-pay call per platform.
+ */
+async function main(): Promise<void> {
+  if (args["dry-run"]) {
+    await dryRun();
+    return;
+  }
 
-  // Determine network based on provided arg or auto-detect
-  if (args.network) {
-    // Network explicitly specified
-    if (!allowedNetworks.includes(args.network.toLowerCase())) {
-      console.error(
-        `network must be either ${allowedNetworks.map((n) => `'${n}'`).join(" or ")}`,
-      );
+  const networkName = client.network === "solana" ? "Solana" : "Base";
+  print(`\n🔧 Creating ${networkName} signer...`);
+  const sender = await client.connect();
+  print(`✅ ${networkName} signer created`);
+
+  if (!args["skip-balance-check"]) {
+    const payable = await checkBalance(
+      "batch-send",
+      client,
+      sender,
+      toBatchEntries(pending),
+      { trim: args.trim, chunkSize },
+    );
+    if (payable === 0) {
+      print(`   Pay it later with: snackmoney batch-send --resume ${batch.id}`);
       process.exit(1);
     }
+    // Trimmed recipients stay pending in the batch state for a later --resume
+    pending = pending.slice(0, payable);
+  }
+
+  const confirmed = await confirmPayments(
+    {
+      network: client.settlementNetwork,
+      networkLabel: client.networkLabel,
+      sender,
+      payments: toBatchEntries(pending),
+      metadata,
+    },
+    args.yes,
+  );
+  if (!confirmed) {
+    saveReport();
+    emitResult({
+      command: "batch-send",
+      status: "cancelled",
+      batchId: batch.id,
+      network: client.settlementNetwork,
+      payments: pending.map((recipient) => recipientRecord(recipient)),
+    });
+    print(`   Pay it later with: snackmoney batch-send --resume ${batch.id}`);
+    process.exit(1);
+  }
+
+  const groups = groupByPlatform(pending);
+  const chunks = chunkByPlatform(pending, chunkSize);
+  const idempotencyKeys = new Map(
+    chunks.map((chunk) => [
+      chunk,
+      chunkIdempotencyKey(batch, chunk.recipients),
+    ]),
+  );
+  // Large batches report one progress line per request instead of every receipt
+  const chunked = chunks.length > groups.size;
+  const totalAmount = sumAmounts(pending.map((r) => BigInt(r.amount)));
 
-    useSolana = args.network.toLowerCase() === "solana";
+  print(
+    `\n💸 Sending ${formatAmount(totalAmount)} USDC to ${pending.length} recipients on ${[...groups.keys()].join(", ")}...`,
+  );
+  print(`   Network: ${client.networkLabel}`);
+  print(`   Batch: ${batch.id}`);
+  if (chunked) {
+    const limits = [
+      concurrency > 1 && `${concurrency} at a time`,
+      args.rate &&
+        `at most ${args.rate.includes("/") ? args.rate : `${args.rate}/s`}`,
+    ].filter(Boolean);
+    print(
+      `   Requests: ${chunks.length} of up to ${chunkSize} recipients${limits.length ? ` (${limits.join(", ")})` : ""}`,
+    );
+  }
+  printMetadata();
 
-    // Validate the required key is available for the specified network
-    if (useSolana && !hasSvmKey) {
-      console.error(
-        "❌ Missing SVM_PRIVATE_KEY environment variable (needed for --network solana)",
+  process.once("SIGINT", () => {
+    printError(
+      `\n⚠️  Interrupted. Resume with: snackmoney batch-send --resume ${batch.id}`,
+    );
+    process.exit(130);
+  });
+
+  let finished = 0;
+  const payChunk = async (
+    chunk: BatchChunk<RecipientState>,
+  ): Promise<ChunkOutcome> => {
+    const { platform, recipients } = chunk;
+    const receivers = toBatchEntries(recipients);
+    if (!chunked) {
+      print(
+        `\n👥 ${platform}: ${formatAmount(sumAmounts(receivers.map((r) => r.amount)))} USDC to ${receivers.length} recipients`,
       );
-      process.exit(1);
-    }
-    if (!useSolana && !hasEvmKey) {
-      console.error(
-        "❌ Missing EVM_PRIVATE_KEY environment variable (needed for --network base)",
+      print(
+        `   Using endpoint: ${client.baseURL}/payments/${platform}/batch-pay\n`,
       );
-      process.exit(1);
     }
-  } else {
-    // No network specified, auto-detect from available keys
-    if (hasEvmKey && hasSvmKey) {
-      console.error(
-        "❌ Both EVM_PRIVATE_KEY and SVM_PRIVATE_KEY environment variables are set",
-      );
-      console.error(
-        "   Please specify which network to use with --network <base|solana>",
-      );
-      process.exit(1);
-    } else if (hasSvmKey) {
-      useSolana = true;
-      console.log(
-        "ℹ️  Auto-detected network: Solana (based on SVM_PRIVATE_KEY)",
-      );
-    } else if (hasEvmKey) {
-      useSolana = false;
-      console.log("ℹ️  Auto-detected network: Base (based on EVM_PRIVATE_KEY)");
-    } else {
-      console.error("❌ No private keys found in environment variables");
-      console.error(
-        "   Set either EVM_PRIVATE_KEY (for Base) or SVM_PRIVATE_KEY (for Solana)",
-      );
-      process.exit(1);
+
+    const idempotencyKey = idempotencyKeys.get(chunk);
+    markSubmitted(batch, recipients, idempotencyKey);
+
+    let outcome: ChunkOutcome;
+    try {
+      const result = await client.batchSend({
+        platform,
+        receivers,
+        ...metadata,
+        idempotencyKey,
+      });
+      applyBatchResult(batch, recipients, result);
+      outcome = { ...chunk, result };
+      if (!chunked) {
+        printBatchResult(result);
+      }
+    } catch (error: unknown) {
+      const paymentError = PaymentError.from(error, "Batch payment failed");
+      applyBatchFailure(batch, recipients, paymentError);
+      outcome = { ...chunk, error: paymentError };
+      if (!chunked) {
+        printBatchError(paymentError);
+      }
     }
+
+    if (chunked) {
+      finished++;
+      print(`[${finished}/${chunks.length}] ${describeOutcome(outcome)}`);
+    }
+    return outcome;
+  };
+
+  if (chunked) {
+    print("");
+  }
+  const outcomes = await runThrottled(
+    chunks.map((chunk) => () => payChunk(chunk)),
+    { concurrency, spacingMs },
+  );
+
+  if (chunked) {
+    printReceiptReport(pending);
+  } else if (outcomes.length > 1) {
+    print("\n📊 Summary:");
+    for (const outcome of outcomes) {
+      print(`   ${describeOutcome(outcome)}`);
+    }
+  }
+  if (outcomes.length > 1) {
+    const paid = pending.filter((r) => r.status === "paid");
+    print(
+      `\n💰 Paid ${formatAmount(sumAmounts(paid.map((r) => BigInt(r.amount))))} of ${formatAmount(totalAmount)} USDC to ${paid.length}/${pending.length} recipients${chunked ? ` in ${outcomes.filter((o) => o.result).length}/${outcomes.length} requests` : ""}`,
+    );
+  }
+
+  printBatchStatus();
+  saveReport();
+
+  const paid = pending.filter((r) => r.status === "paid").length;
+  emitResult({
+    command: "batch-send",
+    status:
+      paid === pending.length ? "success" : paid > 0 ? "partial" : "failed",
+    batchId: batch.id,
+    network: client.settlementNetwork,
+    ...metadata,
+    totalAmount: formatAmount(totalAmount),
+    batches: outcomes.map(({ platform, part, parts, result, error }) => ({
+      platform,
+      part,
+      parts,
+      message: result?.message,
+      txnId: result?.txnId,
+      receipt: result?.receipt,
+      paymentResponse: result?.paymentResponse,
+      explorerUrl: result?.explorerUrl,
+      error: error && errorRecord(error),
+    })),
+    report: args.report,
+    payments: pending.map((recipient) => recipientRecord(recipient)),
+  });
+
+  if (outcomes.some((outcome) => outcome.error)) {
+    process.exit(1);
   }
 }
 
 /**
- * Batch payment example supporting both Ethereum and Solana signers
+ * Describe the outcome of one batch-pay request
+ *
+ * @param outcome - The request and its result or error
+ * @returns e.g. "✅ x 2/5: 200/200 paid, 2.00 USDC (TXN: ...)"
  */
-async function main(): Promise<void> {
-  let api;
-  let network;
+function describeOutcome(outcome: ChunkOutcome): string {
+  const { platform, recipients, part, parts, result, error } = outcome;
+  const amount = formatAmount(
+    sumAmounts(recipients.map((r) => BigInt(r.amount))),
+  );
+  const paid = recipients.filter((r) => r.status === "paid").length;
+  const icon = paid === recipients.length ? "✅" : paid > 0 ? "⚠️ " : "❌";
+  const label = parts > 1 ? `${platform} ${part}/${parts}` : platform;
+  const detail = result?.txnId
+    ? ` (TXN: ${result.txnId})`
+    : error
+      ? ` - ${error.message}`
+      : "";
+  return `${icon} ${label}: ${paid}/${recipients.length} paid, ${amount} USDC${detail}`;
+}
 
-  // Create x402 client
-  const client = new x402Client();
+/**
+ * Print every recipient's receipt or error, gathered from all requests
+ *
+ * @param recipients - The recipients that were paid
+ */
+function printReceiptReport(recipients: RecipientState[]): void {
+  const icons = { paid: "✅", failed: "❌", submitted: "⚠️ ", pending: "⏸️ " };
+  print("\n📄 Receipts:");
+  recipients.forEach((r, index) => {
+    const receipt = r.receipt ? ` - ${r.receipt}` : "";
+    const error = r.error ? ` (${r.error})` : "";
+    print(
+      `   ${index + 1}. ${icons[r.status]} ${r.platform}/${r.receiver}: ${formatAmount(BigInt(r.amount))} USDC${receipt}${error}`,
+    );
+  });
+}
 
-  if (useSolana) {
-    console.log("\n🔧 Creating Solana signer...");
+/**
+ * Output record for a recipient of the batch
+ *
+ * @param recipient - The recipient state
+ * @returns The payment record
+ */
+function recipientRecord(recipient: RecipientState): PaymentRecord {
+  const status = {
+    paid: "success",
+    failed: "failed",
+    pending: "pending",
+    submitted: "unknown",
+  } as const;
+  return paymentRecord({
+    platform: recipient.platform,
+    receiver: recipient.receiver,
+    amount: BigInt(recipient.amount),
+    status: status[recipient.status],
+    network: client.settlementNetwork,
+    txnId: recipient.txnId,
+    transaction: recipient.transaction,
+    explorerUrl: recipient.explorerUrl,
+    receipt: recipient.receipt,
+    description: recipient.description,
+    error: recipient.error,
+  });
+}
 
-    // Use mainnet for production, devnet for local development
-    network =
-      baseURL?.includes("localhost") || baseURL?.includes("127.0.0.1")
-        ? "solana-devnet"
-        : "solana";
+/**
+ * Print the batch-level sender username, campaign and reference, if set
+ */
+function printMetadata(): void {
+  if (metadata.senderUsername) {
+    print(`   Sender: ${metadata.senderUsername}`);
+  }
+  if (metadata.campaign) {
+    print(`   Campaign: ${metadata.campaign}`);
+  }
+  if (metadata.reference) {
+    print(`   Reference: ${metadata.reference}`);
+  }
+}
 
-    const privateKeyBytes = bs58.decode(svmPrivateKey);
-    const solanaSigner = await createKeyPairSignerFromBytes(privateKeyBytes);
-    console.log("✅ Solana signer created");
+/**
+ * Print the outcome of one batch-pay call
+ *
+ * @param result - The batch payment result
+ */
+function printBatchResult(result: BatchPaymentResult): void {
+  print(
+    `✅ ${result.message} | 👥 ${result.receivers.length} recipients | 💰 ${formatAmount(result.totalAmount)} USDC`,
+  );
+  if (result.txnId) {
+    print(`🔗 TXN: ${result.txnId}`);
+  }
 
-    registerExactSvmScheme(client, { signer: solanaSigner });
-  } else {
-    console.log("\n🔧 Creating Base signer...");
-    network = "base";
+  if (result.receipts.length > 0) {
+    print(`\n📄 Individual Receipts:`);
+    receiverOutcomes(result).forEach((outcome, index) => {
+      const status = outcome.status ? ` (${outcome.status})` : "";
+      const memo = outcome.description ? ` - ${outcome.description}` : "";
+      print(
+        `   ${index + 1}. ${outcome.receiver}: ${outcome.receipt ?? "no receipt"}${status}${memo}`,
+      );
+    });
+  } else if (result.receipt) {
+    // Fallback to single receipt if no individual receipts
+    print(`📄 Receipt: ${result.receipt}`);
+  }
 
-    const account = privateKeyToAccount(privateKey);
-    console.log("✅ Base signer created");
+  // Decode payment response to see transaction details (v2 uses payment-response)
+  const paymentResponse = result.paymentResponse;
+  if (paymentResponse) {
+    print("\n💳 Payment details:");
+    print("   Network:", paymentResponse.network);
+    print("   Transaction hash:", paymentResponse.transaction);
 
-    registerExactEvmScheme(client, { signer: account });
+    if (result.explorerUrl) {
+      print("\n🔍 View on explorer:");
+      print(`   ${result.explorerUrl}`);
+    }
   }
+}
 
-  // Wrap axios with payment interceptor
-  api = wrapAxiosWithPayment(axios.create({ baseURL }), client);
+/**
+ * Print a failed batch-pay call
+ *
+ * @param paymentError - The failure
+ */
+function printBatchError(paymentError: PaymentError): void {
+  print(`❌ ${paymentError.message}`);
 
-  console.log(
-    `\n💸 Sending batch payment to ${receivers.length} recipients on ${receiverIdentity}...`,
-  );
-  console.log(
-    `   Using endpoint: ${baseURL}/payments/${receiverIdentity}/batch-pay`,
-  );
-  console.log(
-    `   Network: ${useSolana ? (network === "solana" ? "Solana Mainnet" : "Solana Devnet") : "Base"}\n`,
-  );
+  if (paymentError.status) {
+    printError("   Status:", paymentError.status);
 
+    // Show payment options if 402
+    if (paymentError.accepts) {
+      printPaymentOptions(paymentError.accepts);
+    }
+  } else {
+    printError("   Error:", (paymentError.cause as Error)?.message);
+  }
+}
+
+/**
+ * Write the --report file, if one was asked for; a failure to write it is
+ * reported but does not fail the batch
+ */
+function saveReport(): void {
+  if (!args.report) {
+    return;
+  }
   try {
-    const response = await api.post(`/payments/${receiverIdentity}/batch-pay`, {
-      currency: "USDC",
-      type: "social-network",
-      sender_username: "snackmoney-agent-x402",
-      receivers,
-    });
+    writeReport(args.report, batch);
+    print(`\n📊 Report written to ${args.report}`);
+  } catch (error: unknown) {
+    printError(`⚠️  Could not write the report: ${(error as Error).message}`);
+  }
+}
 
-    console.log(
-      `✅ ${response.data?.msg || "Batch payment sent"} | 👥 ${receivers.length} recipients`,
+/**
+ * Print how much of the batch is paid and how to resume it
+ */
+function printBatchStatus(): void {
+  const counts = summarizeBatch(batch);
+  if (counts.paid === batch.recipients.length) {
+    return;
+  }
+
+  print(
+    `\n📦 Batch ${batch.id}: ${counts.paid}/${batch.recipients.length} paid, ${counts.failed} failed, ${counts.pending} pending, ${counts.submitted} unknown`,
+  );
+  if (counts.submitted > 0) {
+    print(
+      "   Some signed requests got no final answer, so their outcome is unknown. Check your history before retrying with --retry-unknown.",
     );
-    if (response.data?.txn_id || response.data?.data?.txn_id) {
-      const txnId = response.data?.txn_id || response.data?.data?.txn_id;
-      console.log(`🔗 TXN: ${txnId}`);
-    }
+  }
+  print(`   Resume with: snackmoney batch-send --resume ${batch.id}`);
+}
 
-    // Check for individual receipts per receiver
-    if (response.data?.data && Array.isArray(response.data.data)) {
-      console.log(`\n📄 Individual Receipts:`);
-      response.data.data.forEach((receiptData: any, index: number) => {
-        const username =
-          receiptData.username ||
-          receiptData.receiver ||
-          receivers[index].receiver;
-        const receipt = receiptData.receipt;
-        const status = receiptData.status ? ` (${receiptData.status})` : "";
-        console.log(`   ${index + 1}. ${username}: ${receipt}${status}`);
+/**
+ * Fetch and print the batch payment requirements without creating a payment payload
+ */
+async function dryRun(): Promise<void> {
+  // Quote the same requests a real run would sign
+  const chunks = chunkByPlatform(entries, chunkSize);
+
+  print("\n🧪 Dry run: no payment will be signed or sent");
+  print(`   Network: ${client.networkLabel}`);
+  printMetadata();
+
+  const quotes: {
+    platform: Platform;
+    part: number;
+    parts: number;
+    quote: PaymentQuote;
+  }[] = [];
+
+  for (const { platform, recipients, part, parts } of chunks) {
+    const totalAmount = sumAmounts(recipients.map((r) => r.amount));
+    const first = (part - 1) * (chunkSize ?? 0);
+
+    print(
+      `\n👥 Recipients on ${platform}${parts > 1 ? `, request ${part}/${parts}` : ""} (${client.baseURL}/payments/${platform}/batch-pay):`,
+    );
+    recipients.forEach(({ receiver, amount, description }, index) => {
+      const memo = description ? ` - ${description}` : "";
+      print(
+        `   ${first + index + 1}. ${receiver}: ${formatAmount(amount)} USDC${memo}`,
+      );
+    });
+    print("");
+
+    try {
+      const quote = await client.quoteBatch({
+        platform,
+        receivers: recipients,
+        ...metadata,
       });
-    } else if (
-      response.data?.receipts &&
-      Array.isArray(response.data.receipts)
-    ) {
-      console.log(`\n📄 Individual Receipts:`);
-      response.data.receipts.forEach((receiptData: any, index: number) => {
-        console.log(
-          `   ${index + 1}. ${receiptData.receiver || receivers[index].receiver}: ${receiptData.receipt || receiptData}`,
-        );
+      printPaymentQuote(quote, totalAmount, recipients.length);
+      quotes.push({ platform, part, parts, quote });
+    } catch (error: unknown) {
+      const paymentError = PaymentError.from(error, "Dry run failed");
+      printError(`❌ ${paymentError.message}`);
+      if (paymentError.status) {
+        printError("   Status:", paymentError.status);
+      }
+      emitResult({
+        command: "batch-send",
+        status: "failed",
+        network: client.settlementNetwork,
+        error: errorRecord(paymentError),
+        payments: [],
       });
-    } else if (response.data?.receipt || response.data?.data?.receipt) {
-      // Fallback to single receipt if no individual receipts
-      const receipt = response.data?.receipt || response.data?.data?.receipt;
-      console.log(`📄 Receipt: ${receipt}`);
+      process.exit(1);
     }
+  }
 
-    // Decode payment response to see transaction details (v2 uses payment-response)
-    const paymentResponseHeader = response.headers["payment-response"];
-    if (paymentResponseHeader) {
-      const paymentResponse = decodePaymentResponseHeader(paymentResponseHeader);
-      console.log("\n💳 Payment details:");
-      console.log("   Network:", paymentResponse.network);
-      console.log("   Transaction hash:", paymentResponse.transaction);
-
-      if (useSolana) {
-        console.log("\n🔗 View on Solscan:");
-        const cluster = network === "solana" ? "" : "?cluster=devnet";
-        console.log(
-          `   https://solscan.io/tx/${paymentResponse.transaction}${cluster}`,
-        );
-      } else {
-        console.log("\n🔗 View on Etherscan:");
-        console.log(
-          `   https://etherscan.io/tx/${paymentResponse.transaction}`,
-        );
-      }
-    }
-  } catch (error: any) {
-    console.log(`❌ ${error.response?.data?.msg || "Batch payment failed"}`);
-
-    if (error.response) {
-      console.error("   Status:", error.response.status);
-
-      // Show payment options if 402
-      if (error.response.status === 402 && error.response.data.accepts) {
-        console.log("\n💡 Available payment options:");
-        error.response.data.accepts.forEach((accept: any, i: number) => {
-          console.log(
-            `   ${i + 1}. ${accept.network} - Pay to: ${accept.payTo}`,
-          );
-        });
-      }
-    } else {
-      console.error("   Error:", error.message);
-    }
-    process.exit(1);
+  if (chunks.length > 1) {
+    print(
+      `\n💰 Total: ${formatAmount(sumAmounts(entries.map((e) => e.amount)))} USDC for ${entries.length} recipients in ${chunks.length} batch payments`,
+    );
   }
+
+  emitResult({
+    command: "batch-send",
+    status: "dry-run",
+    network: client.settlementNetwork,
+    ...metadata,
+    totalAmount: formatAmount(sumAmounts(entries.map((e) => e.amount))),
+    batches: quotes,
+    payments: entries.map(({ platform, receiver, amount, description }) =>
+      paymentRecord({
+        platform,
+        receiver,
+        amount,
+        status: "dry-run",
+        network: client.settlementNetwork,
+        description,
+      }),
+    ),
+  });
 }
 
 // Execute
 (async () => {
   await init();
   await main();
-})();
+})().catch((error: unknown) => {
+  printError(`❌ ${(error as Error).message}`);
+  emitFailure("batch-send", error);
+  process.exit(1);
+});
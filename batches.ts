@@ -0,0 +1,428 @@
+/**
+ * Resumable batch payout state
+ *
+ * Each batch-send run writes ~/.snackmoney/batches/<batch-id>.json recording
+ * every recipient's outcome, so an interrupted batch can be resumed without
+ * paying anyone twice.
+ */
+
+import {
+  existsSync,
+  mkdirSync,
+  readdirSync,
+  readFileSync,
+  renameSync,
+  writeFileSync,
+} from "fs";
+import { join } from "path";
+import { createHash, randomBytes, randomUUID } from "crypto";
+import {
+  BatchMetadata,
+  BatchReceiver,
+  BatchPaymentResult,
+  PaymentError,
+  receiverOutcomes,
+} from "./client.js";
+import { Platform } from "./platforms.js";
+import { stateDir } from "./ledger.js";
+
+/**
+ * pending   - not sent yet
+ * submitted - sent, but the outcome is unknown (interrupted, no response or 5xx)
+ * paid      - the API confirmed the payment
+ * failed    - the API rejected the payment; safe to retry
+ */
+export type RecipientStatus = "pending" | "submitted" | "paid" | "failed";
+
+/**
+ * One payment in a batch file; entries for different platforms are paid with
+ * one batch-pay call per platform
+ */
+export interface BatchEntry extends BatchReceiver {
+  platform: Platform;
+}
+
+export interface RecipientState {
+  platform: Platform;
+  receiver: string;
+  /** Amount in USDC base units, as a decimal string */
+  amount: string;
+  description?: string;
+  status: RecipientStatus;
+  txnId?: string;
+  /** On-chain transaction hash from the payment-response header */
+  transaction?: string;
+  /** Block explorer link for the transaction */
+  explorerUrl?: string;
+  receipt?: string;
+  error?: string;
+  /** Idempotency key of the batch-pay request the recipient was last sent in */
+  idempotencyKey?: string;
+}
+
+export interface BatchState extends BatchMetadata {
+  id: string;
+  createdAt: string;
+  updatedAt: string;
+  /** Hash of platforms, receivers and amounts, used to spot reruns of the same batch */
+  fingerprint: string;
+  source: string;
+  network: string;
+  recipients: RecipientState[];
+}
+
+/**
+ * Directory holding batch state files
+ *
+ * @returns The batches directory path
+ */
+export function batchesDir(): string {
+  return join(stateDir(), "batches");
+}
+
+/**
+ * Path of a batch state file
+ *
+ * @param id - The batch id
+ * @returns The state file path
+ */
+function batchPath(id: string): string {
+  if (!/^[\w.-]+$/.test(id)) {
+    throw new Error(`Invalid batch id: ${id}`);
+  }
+  return join(batchesDir(), `${id}.json`);
+}
+
+/**
+ * Group batch entries by platform, keeping the order platforms first appear in
+ *
+ * @param entries - Entries or recipient states
+ * @returns The entries for each platform
+ */
+export function groupByPlatform<T extends { platform: Platform }>(
+  entries: T[],
+): Map<Platform, T[]> {
+  const groups = new Map<Platform, T[]>();
+  for (const entry of entries) {
+    groups.set(entry.platform, [...(groups.get(entry.platform) || []), entry]);
+  }
+  return groups;
+}
+
+/** The recipients paid by one batch-pay request */
+export interface BatchChunk<T> {
+  platform: Platform;
+  recipients: T[];
+  /** Position among the chunks of the same platform, from 1 */
+  part: number;
+  /** Number of chunks for the platform */
+  parts: number;
+}
+
+/**
+ * Split batch entries into batch-pay requests: one per platform, further
+ * split into chunks of at most `size` recipients
+ *
+ * @param entries - Entries or recipient states
+ * @param size - Most recipients per request; unlimited when omitted
+ * @returns The chunks, platform by platform
+ */
+export function chunkByPlatform<T extends { platform: Platform }>(
+  entries: T[],
+  size?: number,
+): BatchChunk<T>[] {
+  const chunks: BatchChunk<T>[] = [];
+  for (const [platform, recipients] of groupByPlatform(entries)) {
+    const step = size || recipients.length;
+    const parts = Math.ceil(recipients.length / step);
+    for (let part = 0; part < parts; part++) {
+      chunks.push({
+        platform,
+        recipients: recipients.slice(part * step, (part + 1) * step),
+        part: part + 1,
+        parts,
+      });
+    }
+  }
+  return chunks;
+}
+
+/**
+ * Fingerprint a batch so reruns of the same payout list can be detected
+ *
+ * @param entries - Platforms, receivers and amounts
+ * @returns The fingerprint
+ */
+export function batchFingerprint(entries: BatchEntry[]): string {
+  const hash = createHash("sha256");
+  for (const { platform, receiver, amount } of entries) {
+    hash.update(`${platform}/${receiver.toLowerCase()}:${amount}\n`);
+  }
+  return hash.digest("hex");
+}
+
+/**
+ * Persist a batch state, replacing the previous version atomically
+ *
+ * @param state - The state to save
+ */
+export function saveBatchState(state: BatchState): void {
+  mkdirSync(batchesDir(), { recursive: true, mode: 0o700 });
+  state.updatedAt = new Date().toISOString();
+  const path = batchPath(state.id);
+  writeFileSync(`${path}.tmp`, JSON.stringify(state, null, 2), {
+    mode: 0o600,
+  });
+  renameSync(`${path}.tmp`, path);
+}
+
+/**
+ * Load a batch state
+ *
+ * @param id - The batch id
+ * @returns The saved state
+ */
+export function loadBatchState(id: string): BatchState {
+  const path = batchPath(id);
+  if (!existsSync(path)) {
+    throw new Error(`No batch found with id ${id}`);
+  }
+  return JSON.parse(readFileSync(path, "utf-8"));
+}
+
+/**
+ * Load every saved batch state, newest first
+ *
+ * @returns The saved states
+ */
+export function listBatchStates(): BatchState[] {
+  if (!existsSync(batchesDir())) {
+    return [];
+  }
+  return readdirSync(batchesDir())
+    .filter((name) => name.endsWith(".json"))
+    .map((name) => loadBatchState(name.slice(0, -".json".length)))
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+/**
+ * Create and save the state for a new batch
+ *
+ * @param options - Batch details
+ * @param options.id - Batch id, generated when omitted
+ * @param options.source - The input the batch was read from
+ * @param options.network - The settlement network
+ * @param options.entries - Platforms, receivers and amounts
+ * @param options.metadata - Sender username, campaign and reference
+ * @returns The new state
+ */
+export function createBatchState(options: {
+  id?: string;
+  source: string;
+  network: string;
+  entries: BatchEntry[];
+  metadata?: BatchMetadata;
+}): BatchState {
+  const now = new Date();
+  const id =
+    options.id ||
+    `${now.toISOString().slice(0, 10).replace(/-/g, "")}-${randomBytes(3).toString("hex")}`;
+  if (existsSync(batchPath(id))) {
+    throw new Error(`A batch with id ${id} already exists`);
+  }
+
+  const state: BatchState = {
+    id,
+    createdAt: now.toISOString(),
+    updatedAt: now.toISOString(),
+    fingerprint: batchFingerprint(options.entries),
+    source: options.source,
+    network: options.network,
+    ...options.metadata,
+    recipients: options.entries.map(
+      ({ platform, receiver, amount, description }) => ({
+        platform,
+        receiver,
+        amount: amount.toString(),
+        description,
+        status: "pending",
+      }),
+    ),
+  };
+  saveBatchState(state);
+  return state;
+}
+
+/**
+ * Find an earlier batch for the same payout list that already paid someone
+ *
+ * @param fingerprint - The batch fingerprint
+ * @returns The earlier batch, if any
+ */
+export function findPaidBatch(fingerprint: string): BatchState | undefined {
+  return listBatchStates().find(
+    (state) =>
+      state.fingerprint === fingerprint &&
+      state.recipients.some(
+        (r) => r.status === "paid" || r.status === "submitted",
+      ),
+  );
+}
+
+/**
+ * Recipients that still have to be paid
+ *
+ * @param state - The batch state
+ * @param retryUnknown - Also include recipients whose outcome is unknown
+ * @returns The recipients to pay
+ */
+export function unpaidRecipients(
+  state: BatchState,
+  retryUnknown = false,
+): RecipientState[] {
+  return state.recipients.filter(
+    (r) =>
+      r.status === "pending" ||
+      r.status === "failed" ||
+      (retryUnknown && r.status === "submitted"),
+  );
+}
+
+/**
+ * Batch entries for a set of recipients
+ *
+ * @param recipients - Recipient states
+ * @returns The entries, usable as batchSend receivers
+ */
+export function toBatchEntries(recipients: RecipientState[]): BatchEntry[] {
+  return recipients.map(({ platform, receiver, amount, description }) => ({
+    platform,
+    receiver,
+    amount: BigInt(amount),
+    description,
+  }));
+}
+
+/**
+ * Idempotency key for a batch-pay request
+ *
+ * A request whose outcome is unknown is resent with its original key when
+ * the chunk holds exactly the recipients it was sent with, so the API can
+ * recognise the retry instead of settling it again. Anything else gets a new
+ * key. Keys must be picked for every chunk before any of them is marked
+ * submitted.
+ *
+ * @param state - The batch state
+ * @param recipients - The recipients of the request
+ * @returns The key to send
+ */
+export function chunkIdempotencyKey(
+  state: BatchState,
+  recipients: RecipientState[],
+): string {
+  const [first] = recipients;
+  const key = first?.idempotencyKey;
+  if (key && recipients.every((r) => r.status === "submitted")) {
+    const sentWith = state.recipients.filter((r) => r.idempotencyKey === key);
+    if (
+      sentWith.length === recipients.length &&
+      recipients.every((r) => sentWith.includes(r))
+    ) {
+      return key;
+    }
+  }
+  return randomUUID();
+}
+
+/**
+ * Mark recipients as sent before the request goes out, so an interruption
+ * leaves them as "submitted" rather than "pending"
+ *
+ * @param state - The batch state
+ * @param recipients - The recipients being paid
+ * @param idempotencyKey - Key the request is sent with
+ */
+export function markSubmitted(
+  state: BatchState,
+  recipients: RecipientState[],
+  idempotencyKey?: string,
+): void {
+  for (const recipient of recipients) {
+    recipient.status = "submitted";
+    recipient.error = undefined;
+    recipient.idempotencyKey = idempotencyKey;
+  }
+  saveBatchState(state);
+}
+
+/**
+ * Record each recipient's outcome from a batch-pay response
+ *
+ * @param state - The batch state
+ * @param recipients - The recipients that were paid, in request order
+ * @param result - The batch payment result
+ */
+export function applyBatchResult(
+  state: BatchState,
+  recipients: RecipientState[],
+  result: BatchPaymentResult,
+): void {
+  const outcomes = receiverOutcomes(result);
+  recipients.forEach((recipient, index) => {
+    const outcome = outcomes[index];
+    recipient.status = outcome.paid ? "paid" : "failed";
+    recipient.txnId = result.txnId;
+    recipient.transaction = result.paymentResponse?.transaction;
+    recipient.explorerUrl = result.explorerUrl;
+    recipient.receipt = outcome.receipt;
+    recipient.error = outcome.error;
+  });
+  saveBatchState(state);
+}
+
+/**
+ * Record a failed batch-pay request
+ *
+ * Recipients are marked "failed", and safe to pay again, only when nothing
+ * can have settled: the request was refused (4xx), the settlement was
+ * rejected, or the signed payment was never sent. After a timeout, a dropped
+ * connection or a 5xx to the signed request they stay "submitted".
+ *
+ * @param state - The batch state
+ * @param recipients - The recipients that were being paid
+ * @param error - The failure
+ */
+export function applyBatchFailure(
+  state: BatchState,
+  recipients: RecipientState[],
+  error: PaymentError,
+): void {
+  for (const recipient of recipients) {
+    if (!error.outcomeUnknown) {
+      recipient.status = "failed";
+    }
+    recipient.error = error.message;
+  }
+  saveBatchState(state);
+}
+
+/**
+ * Count recipients by status
+ *
+ * @param state - The batch state
+ * @returns The number of recipients in each status
+ */
+export function summarizeBatch(
+  state: BatchState,
+): Record<RecipientStatus, number> {
+  const counts: Record<RecipientStatus, number> = {
+    pending: 0,
+    submitted: 0,
+    paid: 0,
+    failed: 0,
+  };
+  for (const recipient of state.recipients) {
+    counts[recipient.status]++;
+  }
+  return counts;
+}
@@ -23,17 +23,26 @@ const commands = {
   send: "send.js",
   "batch-send": "batch_send.js",
   "ai-agent": "ai-payment-agent.js",
+  history: "history.js",
+  wallet: "wallet.js",
+  balance: "balance.js",
+  verify: "verify.js",
+  config: "config.js",
+  discover: "discover.js",
+  contacts: "contacts.js",
+  schedule: "schedule.js",
+  "dev-server": "dev_server.js",
 };
 
 /**
- *
+ * Print the CLI version
  */
 function showVersion() {
   console.log(`snackmoney v${VERSION}`);
 }
 
 /**
- *
+ * Print the top-level help
  */
 function showHelp() {
   console.log(`
@@ -50,6 +59,15 @@ COMMANDS:
   send                          Send payment to a single receiver
   batch-send                    Send batch payments to multiple receivers
   ai-agent                      AI-powered payment agent with natural language
+  history                       Show local payment history
+  wallet                        Manage encrypted local wallets
+  balance                       Show USDC and gas balance of your wallet
+  verify                        Check a payment's transfer on chain against the history
+  config                        Manage the config file and named profiles
+  discover                      List paid x402 resources known to a facilitator
+  contacts                      Manage contacts (aliases and groups of receivers)
+  schedule                      Scheduled and recurring payments
+  dev-server                    Run a local emulator of the payments API for tests and CI
 
 EXAMPLES:
 
@@ -69,14 +87,65 @@ EXAMPLES:
 
   # Batch payments (from file or URL)
   snackmoney batch-send ./payments.json
+  snackmoney batch-send ./payouts.csv
   snackmoney batch-send https://example.com/payments.json
 
   # Batch payments (JSON string)
   snackmoney batch-send '{"platform":"x","payments":[{"receiver":"jessepollak","amount":"1¢"}]}'
 
+  # Resume an interrupted or partially failed batch
+  snackmoney batch-send --resume
+  snackmoney batch-send --resume 20250131-a1b2c3
+
   # AI-powered payment across platforms
   snackmoney ai-agent --prompt "Send 1 USDC to @toly on Farcaster and 0.5 USDC to @aeyakovenko on X"
 
+  # Payment history
+  snackmoney history --platform farcaster --from 2025-01-01
+  snackmoney history --schedule payroll
+
+  # Encrypted wallets
+  snackmoney wallet create main
+  snackmoney wallet import payouts --network solana
+  snackmoney wallet list
+  snackmoney send x/jessepollak 1¢ --wallet main
+
+  # Balances
+  snackmoney balance
+  snackmoney balance --wallet main --network base
+
+  # On-chain verification
+  snackmoney verify txn_8f2k1
+  snackmoney verify 0x3f1c...9a2b --rpc http://127.0.0.1:8545
+
+  # Profiles
+  snackmoney config set network base-sepolia --profile testnet
+  snackmoney config set apiUrl http://localhost:4402 --profile testnet
+  snackmoney send x/jessepollak 1¢ --profile testnet
+
+  # Contacts and groups
+  snackmoney contacts add toly farcaster.xyz/toly --tag core-devs
+  snackmoney send @toly 50¢
+  snackmoney batch-send group:core-devs:25¢
+
+  # Recurring payments
+  snackmoney schedule add tip-toly farcaster.xyz/toly 50¢ --cron "0 9 * * mon"
+  snackmoney schedule add payroll --batch ./payroll.csv --every 2w
+  snackmoney schedule daemon
+
+  # Discover paid resources
+  snackmoney discover --host snack.money
+  snackmoney discover --network base-sepolia --asset usdc
+
+  # Local API emulator (nothing is settled on chain)
+  snackmoney dev-server --port 4402
+  snackmoney dev-server --fail 503 --fail-count 2 --fail-receiver bob
+  RESOURCE_SERVER_URL=http://127.0.0.1:4402 snackmoney send farcaster.xyz/toly 50¢
+
+  # Machine-readable output
+  snackmoney send x/jessepollak 1¢ --output json
+  snackmoney history --output table
+
 SUPPORTED PLATFORMS:
   x, x.com, twitter, twitter.com    X/Twitter
   farcaster, farcaster.xyz          Farcaster
@@ -85,28 +154,71 @@ SUPPORTED PLATFORMS:
   web                               Web
 
 AMOUNT FORMATS:
-  1¢               Cents notation
+  1¢, "150 cents"  Cents notation
   $0.5             Dollar notation
-  0.5              Decimal notation
+  "1.5 USDC"       Token notation
+  0.5              Decimal notation (up to 6 decimal places)
+
+BATCH PAYMENT CSV/TSV FORMAT:
+  platform,receiver,amount,description
+  x,aeyakovenko,1¢,"Thanks, Toly"
 
 BATCH PAYMENT JSON FORMAT:
   {
     "platform": "x",
     "payments": [
       {"receiver": "aeyakovenko", "amount": "1¢"},
-      {"receiver": "0xmesuthere", "amount": "$0.5"}
+      {"receiver": "0xmesuthere", "amount": "$0.5"},
+      {"platform": "github", "receiver": "0xsnackbaker", "amount": "10¢"}
     ]
   }
+  Payments without a "platform" use the top-level one; mixed platforms are
+  paid with one batch payment per platform. Payments may carry a
+  "description"; top-level "sender_username", "campaign" and "reference"
+  are sent with the batch.
 
 OPTIONS:
   --help, -h       Show this help message
   --version, -v    Show version number
-  --network        Specify network (base or solana)
+  --network        Network: base, base-sepolia, solana, solana-devnet or a custom network
+  --dry-run        Show the x402 payment requirements without signing (send, batch-send)
+  --wallet <name>  Sign with a saved wallet (send, batch-send, ai-agent)
+  --profile <name> Use a named profile from the config file
+  --memo <text>    Payment description shown to the receiver (send)
+  --output, -o     Output format: text (default), plain, table, json, ndjson
+  --yes, -y        Skip the confirmation prompt (send, batch-send, ai-agent)
+  --resume <id>    Retry only the unpaid recipients of a saved batch (batch-send)
+  --trim           Pay only the recipients that fit when the USDC balance is short (batch-send, ai-agent)
+  --skip-balance-check
+                   Do not check the USDC balance before paying (batch-send, ai-agent)
+  --report <path>  Write each receiver's outcome to a .csv, .tsv or .json file (batch-send)
+  --chunk-size <n> Pay at most n recipients per batch-pay request (batch-send)
+  --concurrency <n>
+                   Batch-pay requests in flight at the same time (batch-send)
+  --rate <rate>    Most batch-pay requests per second, or e.g. 30/m (batch-send)
 
 ENVIRONMENT VARIABLES:
-  SVM_PRIVATE_KEY       Your Solana private key (required)
+  EVM_PRIVATE_KEY       Your Base private key (overrides saved wallets)
+  SVM_PRIVATE_KEY       Your Solana private key (overrides saved wallets)
+  SNACKMONEY_WALLET     Saved wallet used when --wallet is not given
+  SNACKMONEY_WALLET_PASSWORD
+                        Wallet password for non-interactive runs
   ANTHROPIC_API_KEY     Claude API key (optional, for ai-agent)
   OPENAI_API_KEY        OpenAI API key (optional, for ai-agent)
+  SNACKMONEY_HOME       Directory for local state (default: ~/.snackmoney)
+  NO_COLOR              Disable colors in plain and table output
+  BASE_RPC_URL          Base RPC endpoint for balance lookups and verify (default: https://mainnet.base.org)
+  SOLANA_RPC_URL        Solana RPC endpoint for balance lookups and verify (default: public mainnet/devnet)
+  SNACKMONEY_NETWORKS   Custom networks file (default: ~/.snackmoney/networks.json)
+  SNACKMONEY_POLICY     Spending policy file (default: ~/.snackmoney/policy.json)
+  SNACKMONEY_CONTACTS   Contacts file (default: ~/.snackmoney/contacts.json)
+  SNACKMONEY_CONFIG     Config file (default: ~/.config/snackmoney/config)
+  SNACKMONEY_PROFILE    Profile used when --profile is not given
+  SNACKMONEY_FACILITATOR_URL
+                        Facilitator queried by discover (default: Coinbase's)
+  SNACKMONEY_CONFIRM_THRESHOLD
+                        Largest total paid without a terminal and without --yes (default: $1)
+  SNACKMONEY_RETRIES    Retries for payment requests that failed before settlement (default: 3)
 
 DOCUMENTATION:
   https://docs.snack.money
@@ -116,9 +228,10 @@ DOCUMENTATION:
 }
 
 /**
+ * Run a command script in a child process
  *
- * @param command
- * @param args
+ * @param command - The compiled command script
+ * @param args - Arguments for the command
  */
 function runCommand(command: string, args: string[]) {
   const scriptPath = join(__dirname, command);
@@ -139,7 +252,7 @@ function runCommand(command: string, args: string[]) {
 }
 
 /**
- *
+ * Dispatch to the requested command
  */
 function main() {
   const args = process.argv.slice(2);
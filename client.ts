@@ -0,0 +1,924 @@
+/**
+ * Snack Money SDK client
+ * Send USDC payments to social receivers via Snack Money API using x402 protocol
+ */
+
+import { EventEmitter } from "events";
+import { randomUUID } from "crypto";
+import axios, { AxiosInstance, AxiosResponse } from "axios";
+import { Hex } from "viem";
+import { privateKeyToAccount } from "viem/accounts";
+import {
+  x402Client,
+  x402HTTPClient,
+  wrapAxiosWithPayment,
+  decodePaymentResponseHeader,
+  PaymentPayload,
+  PaymentRequirements,
+  Network,
+} from "@x402/axios";
+import { registerExactEvmScheme } from "@x402/evm/exact/client";
+import { registerExactSvmScheme } from "@x402/svm/exact/client";
+import { createKeyPairSignerFromBytes } from "@solana/kit";
+import bs58 from "bs58";
+import { Platform, PaymentTarget, validateReceiver } from "./platforms.js";
+import { sumAmounts, toApiAmount } from "./amount.js";
+import { NetworkConfig, explorerUrl, getNetwork } from "./networks.js";
+import {
+  DEFAULT_RETRY_OPTIONS,
+  IDEMPOTENCY_HEADER,
+  backoffDelay,
+  isRetryable,
+  parseRetries,
+  paymentWasSent,
+} from "./retry.js";
+
+export const DEFAULT_BASE_URL = "https://api.snack.money";
+
+/** How long a payment request may take before it is abandoned */
+export const DEFAULT_TIMEOUT_MS = 60_000;
+
+/** Key type a network signs with: "base" for EVM chains, "solana" for Solana clusters */
+export type PaymentNetwork = "base" | "solana";
+
+export type SettleResponse = ReturnType<typeof decodePaymentResponseHeader>;
+
+export interface SnackMoneyClientOptions {
+  /** Private key used to sign payments on Base */
+  evmPrivateKey?: Hex;
+  /** Base58 encoded private key used to sign payments on Solana */
+  svmPrivateKey?: string;
+  /** Network id to pay on (see networks.ts), auto-detected from the provided keys when omitted */
+  network?: string;
+  /** Snack Money API base URL */
+  baseURL?: string;
+  /** Memo for payments made without one */
+  memo?: string;
+  /** Retries for requests that failed before settlement (default 3, 0 disables) */
+  retries?: number;
+  /** Request timeout in milliseconds (default 60 seconds) */
+  timeout?: number;
+}
+
+export interface PaymentRequest extends PaymentTarget {
+  /** Amount in USDC base units (6 decimals), see parseAmount */
+  amount: bigint;
+  /** Memo shown to the receiver */
+  description?: string;
+  /** Key the API uses to settle the payment at most once; generated when omitted */
+  idempotencyKey?: string;
+}
+
+export interface BatchReceiver {
+  receiver: string;
+  /** Amount in USDC base units (6 decimals), see parseAmount */
+  amount: bigint;
+  /** Memo shown to this receiver */
+  description?: string;
+}
+
+/** Batch-level metadata sent with a batch payment */
+export interface BatchMetadata {
+  senderUsername?: string;
+  /** Campaign the payout belongs to, e.g. "hackathon-2025" */
+  campaign?: string;
+  /** Your own reference for the payout, e.g. an invoice or ticket id */
+  reference?: string;
+}
+
+export interface BatchPaymentRequest extends BatchMetadata {
+  platform: Platform;
+  receivers: BatchReceiver[];
+  /** Key the API uses to settle the batch at most once; generated when omitted */
+  idempotencyKey?: string;
+}
+
+export interface ReceiverReceipt {
+  receiver: string;
+  receipt?: string;
+  status?: string;
+}
+
+/**
+ * What the API reported for one receiver of a batch payment, whichever
+ * response shape it used
+ */
+export interface ReceiverOutcome extends BatchReceiver {
+  /** False when the receiver's receipt reports a failure */
+  paid: boolean;
+  receipt?: string;
+  /** Status the API reported for the receiver, if any */
+  status?: string;
+  /** The failure status, for receivers that were not paid */
+  error?: string;
+}
+
+export interface PaymentResult {
+  target: PaymentTarget;
+  amount: bigint;
+  description: string;
+  network: PaymentNetwork;
+  message: string;
+  txnId?: string;
+  receipt?: string;
+  paymentResponse?: SettleResponse;
+  /** The payment option that was signed: token, payTo and amount charged */
+  requirements?: PaymentRequirements;
+  /** Block explorer link for the settlement transaction */
+  explorerUrl?: string;
+  /** Idempotency key the payment was sent with */
+  idempotencyKey: string;
+}
+
+export interface BatchPaymentResult extends BatchMetadata {
+  platform: Platform;
+  receivers: BatchReceiver[];
+  totalAmount: bigint;
+  network: PaymentNetwork;
+  message: string;
+  txnId?: string;
+  receipt?: string;
+  receipts: ReceiverReceipt[];
+  paymentResponse?: SettleResponse;
+  /** The payment option that was signed: token, payTo and amount charged */
+  requirements?: PaymentRequirements;
+  /** Block explorer link for the settlement transaction */
+  explorerUrl?: string;
+  /** Idempotency key the batch was sent with */
+  idempotencyKey: string;
+}
+
+export interface PaymentQuote {
+  /** x402 protocol version of the challenge */
+  x402Version: number;
+  /** The resource the payment is for */
+  resource?: string;
+  /** Every payment option the server offered */
+  accepts: PaymentRequirements[];
+  /** The option this client would sign for its network, if any */
+  selected?: PaymentRequirements;
+}
+
+/** A failed request that is about to be sent again */
+export interface RequestRetry {
+  /** API path of the request */
+  path: string;
+  /** Which retry is next, from 1 */
+  retry: number;
+  /** Most retries that will be made */
+  retries: number;
+  /** Wait before the retry */
+  delayMs: number;
+  /** Key shared by every attempt of the request */
+  idempotencyKey: string;
+  error: PaymentError;
+}
+
+export type SnackMoneyClientEvents = {
+  "signer:ready": [{ network: PaymentNetwork; address: string }];
+  "payment:required": [PaymentRequirements];
+  "payment:signed": [PaymentPayload];
+  "send:start": [PaymentRequest];
+  "send:success": [PaymentResult];
+  "send:failure": [PaymentError, PaymentRequest];
+  "batch:start": [BatchPaymentRequest];
+  "batch:success": [BatchPaymentResult];
+  "batch:failure": [PaymentError, BatchPaymentRequest];
+  "request:retry": [RequestRetry];
+};
+
+interface SnackMoneyResponseData {
+  msg?: string;
+  txn_id?: string;
+  receipt?: string;
+  data?: unknown;
+  receipts?: unknown;
+}
+
+/**
+ * Whether a failed response carries a payment-response reporting that the
+ * payment did not settle
+ *
+ * @param error - What the HTTP client threw
+ * @returns True for an unsuccessful settlement
+ */
+function settlementRejected(error: unknown): boolean {
+  const header = axios.isAxiosError(error)
+    ? error.response?.headers?.["payment-response"]
+    : undefined;
+  if (typeof header !== "string" || !header) {
+    return false;
+  }
+  try {
+    return decodePaymentResponseHeader(header).success === false;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Error raised when the Snack Money API rejects or fails a payment
+ */
+export class PaymentError extends Error {
+  readonly status?: number;
+  readonly data?: unknown;
+  readonly accepts?: PaymentRequirements[];
+  readonly cause?: unknown;
+  /**
+   * True when the signed payment was sent but nothing says whether it
+   * settled: a timeout, a dropped connection, or a 5xx without a rejected
+   * payment-response
+   */
+  readonly outcomeUnknown: boolean;
+
+  /**
+   * Wrap a failed API request
+   *
+   * @param message - Human readable failure message
+   * @param cause - The underlying error
+   */
+  constructor(message: string, cause?: unknown) {
+    super(message);
+    this.name = "PaymentError";
+    this.cause = cause;
+
+    if (axios.isAxiosError(cause) && cause.response) {
+      this.status = cause.response.status;
+      this.data = cause.response.data;
+      if (this.status === 402 && Array.isArray(cause.response.data?.accepts)) {
+        this.accepts = cause.response.data.accepts;
+      }
+    }
+    this.outcomeUnknown =
+      paymentWasSent(cause) &&
+      (this.status === undefined ||
+        (this.status >= 500 && !settlementRejected(cause)));
+  }
+
+  /**
+   * Build a PaymentError from whatever the HTTP client threw
+   *
+   * @param error - The thrown error
+   * @param fallback - Message used when the API did not provide one
+   * @returns The wrapped error
+   */
+  static from(error: unknown, fallback: string): PaymentError {
+    if (error instanceof PaymentError) {
+      return error;
+    }
+    const apiMessage = axios.isAxiosError(error)
+      ? error.response?.data?.msg
+      : undefined;
+    return new PaymentError(apiMessage || fallback, error);
+  }
+}
+
+/**
+ * Determine which network to pay on from the requested network and the available keys
+ *
+ * @param options - Client options
+ * @returns The network to use
+ */
+export function resolveNetwork(
+  options: SnackMoneyClientOptions,
+): NetworkConfig {
+  const hasEvmKey = !!options.evmPrivateKey;
+  const hasSvmKey = !!options.svmPrivateKey;
+
+  if (options.network) {
+    const network = getNetwork(options.network);
+    if (network.family === "svm" && !hasSvmKey) {
+      throw new Error(
+        `Missing SVM_PRIVATE_KEY environment variable (needed for --network ${network.id})`,
+      );
+    }
+    if (network.family === "evm" && !hasEvmKey) {
+      throw new Error(
+        `Missing EVM_PRIVATE_KEY environment variable (needed for --network ${network.id})`,
+      );
+    }
+    return network;
+  }
+
+  if (hasEvmKey && hasSvmKey) {
+    throw new Error(
+      "Both EVM_PRIVATE_KEY and SVM_PRIVATE_KEY environment variables are set\n   Please specify which network to use with --network <base|base-sepolia|solana|solana-devnet>",
+    );
+  }
+  if (hasSvmKey) {
+    return getNetwork("solana");
+  }
+  if (hasEvmKey) {
+    return getNetwork("base");
+  }
+  throw new Error(
+    "No private keys found in environment variables\n   Set either EVM_PRIVATE_KEY (for Base) or SVM_PRIVATE_KEY (for Solana)",
+  );
+}
+
+/**
+ * Whether the API reported a receiver in a batch as not paid
+ *
+ * @param receipt - The receiver's receipt
+ * @returns True when the receipt status indicates a failure
+ */
+export function isFailedReceipt(receipt: ReceiverReceipt | undefined): boolean {
+  return /fail|error|reject/i.test(receipt?.status || "");
+}
+
+/**
+ * Find the receipt for a receiver: the one at its position in the request
+ * when it names the receiver, else the first unused one naming it, else the
+ * unused one at its position. A receiver listed twice gets two receipts.
+ *
+ * @param receipts - Receipts returned by the API
+ * @param receiver - The receiver
+ * @param index - The receiver's position in the request
+ * @param used - Receipts already matched to other receivers; the match is added
+ * @returns The receipt, if any
+ */
+export function findReceipt(
+  receipts: ReceiverReceipt[],
+  receiver: string,
+  index: number,
+  used = new Set<ReceiverReceipt>(),
+): ReceiverReceipt | undefined {
+  const unused = receipts.filter((r) => !used.has(r));
+  const atIndex = unused.includes(receipts[index])
+    ? receipts[index]
+    : undefined;
+  const receipt =
+    atIndex?.receiver === receiver
+      ? atIndex
+      : (unused.find((r) => r.receiver === receiver) ?? atIndex);
+  if (receipt) {
+    used.add(receipt);
+  }
+  return receipt;
+}
+
+/**
+ * One outcome per receiver of a batch payment
+ *
+ * Per-receiver receipts come from the response's "data" or "receipts" list,
+ * matched by name or request order; receivers without one get the batch's
+ * single "receipt".
+ *
+ * @param result - The batch payment result
+ * @returns The outcomes, in request order
+ */
+export function receiverOutcomes(
+  result: BatchPaymentResult,
+): ReceiverOutcome[] {
+  const used = new Set<ReceiverReceipt>();
+  return result.receivers.map((receiver, index) => {
+    const receipt = findReceipt(
+      result.receipts,
+      receiver.receiver,
+      index,
+      used,
+    );
+    const failed = isFailedReceipt(receipt);
+    return {
+      ...receiver,
+      paid: !failed,
+      receipt: receipt?.receipt || result.receipt,
+      status: receipt?.status,
+      error: failed ? receipt?.status : undefined,
+    };
+  });
+}
+
+/**
+ * Normalize the per-receiver receipts returned by the batch-pay endpoint
+ *
+ * @param data - The batch-pay response body
+ * @param receivers - The receivers that were paid, in request order
+ * @returns One entry per receipt returned by the API
+ */
+function extractReceipts(
+  data: SnackMoneyResponseData | undefined,
+  receivers: BatchReceiver[],
+): ReceiverReceipt[] {
+  const entries: unknown[] | undefined = Array.isArray(data?.data)
+    ? data.data
+    : Array.isArray(data?.receipts)
+      ? data.receipts
+      : undefined;
+
+  if (!entries) {
+    return [];
+  }
+
+  return entries.map((entry, index) => {
+    if (typeof entry === "string") {
+      return { receiver: receivers[index]?.receiver, receipt: entry };
+    }
+    const fields = responseFields(entry);
+    return {
+      receiver:
+        fields.username || fields.receiver || receivers[index]?.receiver,
+      receipt: fields.receipt,
+      status: fields.status,
+    };
+  });
+}
+
+/**
+ * The string fields of an object in an API response
+ *
+ * @param value - Part of a response body
+ * @returns Its string-valued fields; empty for anything but an object
+ */
+function responseFields(value: unknown): Record<string, string | undefined> {
+  if (typeof value !== "object" || value === null) {
+    return {};
+  }
+  return Object.fromEntries(
+    Object.entries(value).filter(([, field]) => typeof field === "string"),
+  );
+}
+
+/**
+ * Programmatic Snack Money client
+ *
+ * Emits lifecycle events (see SnackMoneyClientEvents) so callers can follow
+ * signer setup, x402 payment creation and the outcome of each request.
+ */
+export class SnackMoneyClient extends EventEmitter<SnackMoneyClientEvents> {
+  readonly network: PaymentNetwork;
+  /** The network payments settle on */
+  readonly networkConfig: NetworkConfig;
+  readonly baseURL: string;
+  private readonly options: SnackMoneyClientOptions;
+  private api?: Promise<AxiosInstance>;
+  private address?: string;
+
+  /**
+   * Create a client; the signer is only created on first use
+   *
+   * @param options - Keys, network and API configuration
+   */
+  constructor(options: SnackMoneyClientOptions) {
+    super();
+    this.options = options;
+    this.networkConfig = resolveNetwork(options);
+    this.network = this.networkConfig.family === "svm" ? "solana" : "base";
+    this.baseURL = options.baseURL || DEFAULT_BASE_URL;
+  }
+
+  /**
+   * Id of the network the payments settle on
+   *
+   * @returns e.g. "base", "base-sepolia" or "solana-devnet"
+   */
+  get settlementNetwork(): string {
+    return this.networkConfig.id;
+  }
+
+  /**
+   * Human readable network name
+   *
+   * @returns The network label
+   */
+  get networkLabel(): string {
+    return this.networkConfig.name;
+  }
+
+  /**
+   * Create a client from EVM_PRIVATE_KEY, SVM_PRIVATE_KEY, RESOURCE_SERVER_URL
+   * and SNACKMONEY_RETRIES
+   *
+   * @param overrides - Options taking precedence over the environment
+   * @returns The client
+   */
+  static fromEnv(overrides: SnackMoneyClientOptions = {}): SnackMoneyClient {
+    return new SnackMoneyClient({
+      evmPrivateKey: process.env.EVM_PRIVATE_KEY as Hex | undefined,
+      svmPrivateKey: process.env.SVM_PRIVATE_KEY,
+      baseURL: process.env.RESOURCE_SERVER_URL,
+      retries: process.env.SNACKMONEY_RETRIES
+        ? parseRetries(process.env.SNACKMONEY_RETRIES)
+        : undefined,
+      ...overrides,
+    });
+  }
+
+  /**
+   * Create the signer and payment-enabled HTTP client ahead of the first payment
+   *
+   * @returns The address payments are sent from
+   */
+  async connect(): Promise<string> {
+    await this.getApi();
+    return this.address!;
+  }
+
+  /**
+   * Send a payment to a single receiver
+   *
+   * @param request - Receiver, amount and optional description
+   * @returns The settled payment
+   */
+  async send(request: PaymentRequest): Promise<PaymentResult> {
+    validateReceiver(request.platform, request.receiver);
+    const idempotencyKey = request.idempotencyKey || randomUUID();
+    this.emit("send:start", request);
+
+    try {
+      const response = await this.post(
+        `/payments/${request.platform}/pay`,
+        this.payBody(request),
+        idempotencyKey,
+      );
+
+      const data = response.data;
+      const nested = responseFields(data?.data);
+      const paymentResponse = this.decodePaymentResponse(
+        response.headers["payment-response"],
+      );
+      const result: PaymentResult = {
+        target: { platform: request.platform, receiver: request.receiver },
+        amount: request.amount,
+        description: this.describe(request.description),
+        network: this.network,
+        message: data?.msg || "Payment sent",
+        txnId: data?.txn_id || nested.txn_id,
+        receipt: data?.receipt || nested.receipt,
+        paymentResponse,
+        requirements: this.signedRequirements(response),
+        explorerUrl: this.explorerUrl(paymentResponse),
+        idempotencyKey,
+      };
+
+      this.emit("send:success", result);
+      return result;
+    } catch (error) {
+      const paymentError = PaymentError.from(error, "Payment failed");
+      this.emit("send:failure", paymentError, { ...request, idempotencyKey });
+      throw paymentError;
+    }
+  }
+
+  /**
+   * Send payments to several receivers on one platform in a single request
+   *
+   * @param request - Platform, receivers and optional sender username
+   * @returns The settled batch payment
+   */
+  async batchSend(request: BatchPaymentRequest): Promise<BatchPaymentResult> {
+    for (const { receiver } of request.receivers) {
+      validateReceiver(request.platform, receiver);
+    }
+    const idempotencyKey = request.idempotencyKey || randomUUID();
+    this.emit("batch:start", request);
+
+    try {
+      const response = await this.post(
+        `/payments/${request.platform}/batch-pay`,
+        this.batchPayBody(request),
+        idempotencyKey,
+      );
+
+      const data = response.data;
+      const nested = responseFields(data?.data);
+      const paymentResponse = this.decodePaymentResponse(
+        response.headers["payment-response"],
+      );
+      const result: BatchPaymentResult = {
+        platform: request.platform,
+        receivers: request.receivers,
+        senderUsername: this.senderUsername(request),
+        campaign: request.campaign,
+        reference: request.reference,
+        totalAmount: sumAmounts(request.receivers.map((r) => r.amount)),
+        network: this.network,
+        message: data?.msg || "Batch payment sent",
+        txnId: data?.txn_id || nested.txn_id,
+        receipt: data?.receipt || nested.receipt,
+        receipts: extractReceipts(data, request.receivers),
+        paymentResponse,
+        requirements: this.signedRequirements(response),
+        explorerUrl: this.explorerUrl(paymentResponse),
+        idempotencyKey,
+      };
+
+      this.emit("batch:success", result);
+      return result;
+    } catch (error) {
+      const paymentError = PaymentError.from(error, "Batch payment failed");
+      this.emit("batch:failure", paymentError, { ...request, idempotencyKey });
+      throw paymentError;
+    }
+  }
+
+  /**
+   * Request the x402 payment requirements for a payment without signing anything
+   *
+   * @param request - Receiver, amount and optional description
+   * @returns The decoded 402 challenge
+   */
+  async quote(request: PaymentRequest): Promise<PaymentQuote> {
+    validateReceiver(request.platform, request.receiver);
+    return this.requestQuote(
+      `/payments/${request.platform}/pay`,
+      this.payBody(request),
+    );
+  }
+
+  /**
+   * Request the x402 payment requirements for a batch payment without signing anything
+   *
+   * @param request - Platform, receivers and optional sender username
+   * @returns The decoded 402 challenge
+   */
+  async quoteBatch(request: BatchPaymentRequest): Promise<PaymentQuote> {
+    for (const { receiver } of request.receivers) {
+      validateReceiver(request.platform, receiver);
+    }
+    return this.requestQuote(
+      `/payments/${request.platform}/batch-pay`,
+      this.batchPayBody(request),
+    );
+  }
+
+  /**
+   * Make a paid request, retrying failures that happened before the signed
+   * payment was sent (see retry.ts); every attempt carries the same
+   * idempotency key
+   *
+   * @param path - API path
+   * @param body - Request body
+   * @param idempotencyKey - Key identifying the payment
+   * @returns The response
+   */
+  private async post(
+    path: string,
+    body: Record<string, unknown>,
+    idempotencyKey: string,
+  ) {
+    const api = await this.getApi();
+    const options = {
+      ...DEFAULT_RETRY_OPTIONS,
+      retries: this.options.retries ?? DEFAULT_RETRY_OPTIONS.retries,
+    };
+
+    for (let retry = 1; ; retry++) {
+      try {
+        return await api.post<SnackMoneyResponseData>(path, body, {
+          headers: { [IDEMPOTENCY_HEADER]: idempotencyKey },
+        });
+      } catch (error) {
+        if (retry > options.retries || !isRetryable(error)) {
+          throw error;
+        }
+        const delayMs = backoffDelay(retry, options, error);
+        this.emit("request:retry", {
+          path,
+          retry,
+          retries: options.retries,
+          delayMs,
+          idempotencyKey,
+          error: PaymentError.from(error, (error as Error).message),
+        });
+        await new Promise((resolve) => setTimeout(resolve, delayMs));
+      }
+    }
+  }
+
+  /**
+   * Request body for the pay endpoint
+   *
+   * @param request - The single payment
+   * @returns The JSON body
+   */
+  private payBody(request: PaymentRequest): Record<string, unknown> {
+    return {
+      amount: toApiAmount(request.amount),
+      currency: "USDC",
+      receiver: request.receiver,
+      description: this.describe(request.description),
+    };
+  }
+
+  /**
+   * Payment description, defaulting to one naming the settlement chain
+   *
+   * @param memo - The memo given by the caller
+   * @returns The description sent to the API
+   */
+  private describe(memo?: string): string {
+    return (
+      memo ||
+      this.options.memo ||
+      `Payment via X402 (${this.network === "solana" ? "Solana" : "Ethereum"})`
+    );
+  }
+
+  /**
+   * Sender username for a batch payment
+   *
+   * @param request - The batch payment
+   * @returns The username sent to the API
+   */
+  private senderUsername(request: BatchPaymentRequest): string {
+    return request.senderUsername || "snackmoney-agent-x402";
+  }
+
+  /**
+   * Request body for the batch-pay endpoint
+   *
+   * @param request - The batch payment
+   * @returns The JSON body
+   */
+  private batchPayBody(request: BatchPaymentRequest): Record<string, unknown> {
+    return {
+      currency: "USDC",
+      type: "social-network",
+      sender_username: this.senderUsername(request),
+      ...(request.campaign ? { campaign: request.campaign } : {}),
+      ...(request.reference ? { reference: request.reference } : {}),
+      receivers: request.receivers.map(({ receiver, amount, description }) => {
+        const memo = description || this.options.memo;
+        return {
+          receiver,
+          amount: toApiAmount(amount),
+          ...(memo ? { description: memo } : {}),
+        };
+      }),
+    };
+  }
+
+  /**
+   * Make the unpaid request and decode the 402 challenge it returns
+   *
+   * @param path - API path
+   * @param body - Request body
+   * @returns The decoded 402 challenge
+   */
+  private async requestQuote(
+    path: string,
+    body: Record<string, unknown>,
+  ): Promise<PaymentQuote> {
+    let response;
+    try {
+      response = await axios.post(path, body, {
+        baseURL: this.baseURL,
+        validateStatus: (status) => status === 402,
+      });
+    } catch (error) {
+      throw PaymentError.from(error, "Failed to fetch payment requirements");
+    }
+
+    // Decoding the challenge does not need any registered scheme
+    const httpClient = new x402HTTPClient(new x402Client());
+    const paymentRequired = httpClient.getPaymentRequiredResponse(
+      (name) => response.headers[name.toLowerCase()],
+      response.data,
+    );
+
+    const selected = paymentRequired.accepts.find((requirements) =>
+      this.matchesNetwork(requirements),
+    );
+
+    return {
+      x402Version: paymentRequired.x402Version,
+      resource: paymentRequired.resource?.url,
+      accepts: paymentRequired.accepts,
+      selected,
+    };
+  }
+
+  /**
+   * Whether a payment option or settlement is on the selected network (CAIP-2
+   * id in x402 v2, network name in v1)
+   *
+   * @param requirements - The payment option or settlement
+   * @param requirements.network - Its network
+   * @returns True when it is on this client's network
+   */
+  private matchesNetwork(requirements: { network: string }): boolean {
+    return (
+      requirements.network === this.networkConfig.caip2 ||
+      requirements.network === this.networkConfig.id
+    );
+  }
+
+  /**
+   * Lazily create the x402 client and wrapped axios instance
+   *
+   * @returns The payment-enabled axios instance
+   */
+  private getApi(): Promise<AxiosInstance> {
+    if (!this.api) {
+      this.api = this.createApi();
+    }
+    return this.api;
+  }
+
+  /**
+   * Register the signer for the selected network and wrap axios with x402 payment handling
+   *
+   * @returns The payment-enabled axios instance
+   */
+  private async createApi(): Promise<AxiosInstance> {
+    const client = new x402Client();
+    // Only sign for the selected network, never another chain the server offers
+    const networks = [this.networkConfig.caip2 as Network];
+    const paymentRequirementsSelector = (
+      _x402Version: number,
+      accepts: PaymentRequirements[],
+    ) => accepts.find((r) => this.matchesNetwork(r)) || accepts[0];
+
+    if (this.network === "solana") {
+      const privateKeyBytes = bs58.decode(this.options.svmPrivateKey!);
+      const solanaSigner = await createKeyPairSignerFromBytes(privateKeyBytes);
+      registerExactSvmScheme(client, {
+        signer: solanaSigner,
+        networks,
+        paymentRequirementsSelector,
+      });
+      this.address = solanaSigner.address;
+    } else {
+      const account = privateKeyToAccount(this.options.evmPrivateKey!);
+      registerExactEvmScheme(client, {
+        signer: account,
+        networks,
+        paymentRequirementsSelector,
+      });
+      this.address = account.address;
+    }
+
+    client.onBeforePaymentCreation(async ({ selectedRequirements }) => {
+      this.emit("payment:required", selectedRequirements);
+    });
+    client.onAfterPaymentCreation(async ({ paymentPayload }) => {
+      this.emit("payment:signed", paymentPayload);
+    });
+
+    this.emit("signer:ready", { network: this.network, address: this.address });
+
+    return wrapAxiosWithPayment(
+      axios.create({
+        baseURL: this.baseURL,
+        timeout: this.options.timeout ?? DEFAULT_TIMEOUT_MS,
+      }),
+      client,
+    );
+  }
+
+  /**
+   * Decode the payment-response header returned after settlement
+   *
+   * @param header - The raw header value
+   * @returns The decoded settlement, if present
+   */
+  private decodePaymentResponse(header: unknown): SettleResponse | undefined {
+    if (typeof header !== "string" || !header) {
+      return undefined;
+    }
+    return decodePaymentResponseHeader(header);
+  }
+
+  /**
+   * The payment option a paid request signed for, read back from the payment
+   * header the x402 interceptor added to it
+   *
+   * @param response - The response to the paid request
+   * @returns The requirements, for x402 v2 payments
+   */
+  private signedRequirements(
+    response: AxiosResponse,
+  ): PaymentRequirements | undefined {
+    const header = response.config?.headers?.["PAYMENT-SIGNATURE"];
+    if (typeof header !== "string" || !header) {
+      return undefined;
+    }
+    try {
+      const payload: PaymentPayload = JSON.parse(
+        Buffer.from(header, "base64").toString("utf-8"),
+      );
+      return payload.accepted;
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * Explorer link for a settlement, on the network the facilitator reports it
+   * settled on
+   *
+   * @param paymentResponse - The decoded payment-response header
+   * @returns The transaction URL, if the network has an explorer
+   */
+  private explorerUrl(paymentResponse?: SettleResponse): string | undefined {
+    if (!paymentResponse?.transaction) {
+      return undefined;
+    }
+    if (!paymentResponse.network || this.matchesNetwork(paymentResponse)) {
+      // Use the selected network's own entry, custom explorer included
+      return explorerUrl(this.networkConfig.id, paymentResponse.transaction);
+    }
+    return explorerUrl(paymentResponse.network, paymentResponse.transaction);
+  }
+}
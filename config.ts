@@ -0,0 +1,239 @@
+import minimist from "minimist";
+import { join } from "path";
+import {
+  PROFILE_KEYS,
+  ProfileKey,
+  ConfigFile,
+  configPath,
+  projectConfigPath,
+  configLayers,
+  readConfig,
+  writeConfig,
+  selectedProfile,
+  resolveProfile,
+  validateSetting,
+  loadEnvFile,
+} from "./profiles.js";
+import { print, printError, setOutputFormat, emitResult } from "./output.js";
+
+/**
+ * Print usage for the config command
+ *
+ * @param log - Output function (stdout for --help, stderr for errors)
+ */
+function printUsage(log: (message: string) => void): void {
+  log("Usage: snackmoney config <command> [--profile <name>] [--local]");
+  log("\nCommands:");
+  log("  list                   Show every profile and its settings");
+  log("  get <key>              Print a setting of the selected profile");
+  log("  set <key> <value>      Change a setting of the selected profile");
+  log("  unset <key>            Remove a setting from the selected profile");
+  log("  use <profile>          Make a profile the default");
+  log("\nSettings:");
+  log("  apiUrl     Snack Money API base URL (RESOURCE_SERVER_URL)");
+  log("  network    Default --network");
+  log("  wallet     Default --wallet (SNACKMONEY_WALLET)");
+  log("  memo       Memo for payments made without one");
+  log("  output     Default --output format");
+  log("  policy     Spending policy file (SNACKMONEY_POLICY)");
+  log(
+    "  facilitatorUrl  Facilitator queried by discover (SNACKMONEY_FACILITATOR_URL)",
+  );
+  log("\nOptions:");
+  log(
+    "  --profile <name>   Profile to read or change (default: SNACKMONEY_PROFILE or the config's default)",
+  );
+  log(
+    "  --local            Change the project's .snackmoneyrc instead of the user config",
+  );
+  log("  --output <format>  text (default), plain or json (list)");
+  log("\nExamples:");
+  log("  snackmoney config set network base-sepolia --profile testnet");
+  log("  snackmoney config set wallet main");
+  log("  snackmoney config use testnet");
+  log("  snackmoney config list");
+  log("  snackmoney send x/jessepollak 1¢ --profile testnet");
+}
+
+const args = minimist(process.argv.slice(2), {
+  string: ["_", "profile", "output"],
+  boolean: ["local", "help"],
+  alias: { o: "output", h: "help" },
+});
+
+const [command, ...params] = args._;
+
+/**
+ * The file a change is written to: the nearest .snackmoneyrc with --local
+ * (created in the current directory when there is none), the user config
+ * otherwise
+ *
+ * @returns The config file path
+ */
+function targetPath(): string {
+  if (args.local) {
+    return projectConfigPath() || join(process.cwd(), ".snackmoneyrc");
+  }
+  return configPath();
+}
+
+/**
+ * Apply a change to one profile of the target file
+ *
+ * @param change - Edits the profile's settings in place
+ * @returns The profile name and the file written
+ */
+function updateProfile(
+  change: (settings: Partial<Record<ProfileKey, string>>) => void,
+): { name: string; path: string } {
+  const path = targetPath();
+  const name = selectedProfile(args.profile);
+  const config: ConfigFile = readConfig(path);
+  const settings = config.profiles[name] || {};
+  change(settings);
+  config.profiles[name] = settings;
+  writeConfig(path, config);
+  return { name, path };
+}
+
+/**
+ * Check that a setting name is known
+ *
+ * @param key - The setting name
+ * @returns The setting
+ */
+function settingKey(key: string | undefined): ProfileKey {
+  if (!key || !(PROFILE_KEYS as readonly string[]).includes(key)) {
+    throw new Error(
+      `Unknown setting: ${key ?? ""}. Use ${PROFILE_KEYS.join(", ")}`,
+    );
+  }
+  return key as ProfileKey;
+}
+
+/**
+ * Run the config subcommand
+ */
+async function main(): Promise<void> {
+  switch (command) {
+    case "list": {
+      const layers = configLayers();
+      const active = selectedProfile(args.profile, layers);
+      const names = [
+        ...new Set(
+          layers.flatMap(({ config }) => Object.keys(config.profiles)),
+        ),
+      ].sort();
+
+      const profiles = Object.fromEntries(
+        names.map((name) => [name, resolveProfile(name)]),
+      );
+      print(`⚙️  Config files:`);
+      for (const { path } of layers) {
+        print(`   ${path}`);
+      }
+      if (names.length === 0) {
+        print(
+          "\nNo profiles yet. Add one with: snackmoney config set <key> <value>",
+        );
+      }
+      for (const name of names) {
+        const marker = name === active ? " (active)" : "";
+        print(`\n👤 ${name}${marker}`);
+        for (const key of PROFILE_KEYS) {
+          const value = profiles[name].profile[key];
+          if (value !== undefined) {
+            print(`   ${key.padEnd(14)} ${value}`);
+          }
+        }
+      }
+
+      emitResult({
+        command: "config",
+        active,
+        files: layers.map(({ path }) => path),
+        profiles: Object.fromEntries(
+          names.map((name) => [name, profiles[name].profile]),
+        ),
+        payments: [],
+      });
+      break;
+    }
+
+    case "get": {
+      const key = settingKey(params[0]);
+      const { profile } = resolveProfile(args.profile);
+      if (profile[key] === undefined) {
+        process.exit(1);
+      }
+      console.log(profile[key]);
+      break;
+    }
+
+    case "set": {
+      const key = settingKey(params[0]);
+      if (params[1] === undefined) {
+        throw new Error(`No value given for ${key}`);
+      }
+      const value = validateSetting(key, String(params[1]));
+      const { name, path } = updateProfile((settings) => {
+        settings[key] = value;
+      });
+      print(`✅ Set ${key} = ${value} in profile ${name} (${path})`);
+      break;
+    }
+
+    case "unset": {
+      const key = settingKey(params[0]);
+      const { name, path } = updateProfile((settings) => {
+        delete settings[key];
+      });
+      print(`✅ Removed ${key} from profile ${name} (${path})`);
+      break;
+    }
+
+    case "use": {
+      const name = String(params[0]);
+      const path = targetPath();
+      const known = configLayers().some(
+        ({ config }) => config.profiles[name] !== undefined,
+      );
+      if (!known) {
+        throw new Error(
+          `Unknown profile: ${name}. Add it with: snackmoney config set <key> <value> --profile ${name}`,
+        );
+      }
+      const config = readConfig(path);
+      config.profile = name;
+      writeConfig(path, config);
+      print(`✅ Default profile is now ${name} (${path})`);
+      break;
+    }
+  }
+}
+
+if (args.help) {
+  printUsage(console.log);
+  process.exit(0);
+}
+
+try {
+  loadEnvFile();
+  setOutputFormat(args.output);
+} catch (error: unknown) {
+  printError(`❌ ${(error as Error).message}`);
+  process.exit(1);
+}
+
+if (
+  !["list", "get", "set", "unset", "use"].includes(command) ||
+  (command === "use" && !params[0])
+) {
+  printUsage(console.error);
+  process.exit(1);
+}
+
+main().catch((error: unknown) => {
+  printError(`❌ ${(error as Error).message}`);
+  process.exit(1);
+});
@@ -0,0 +1,141 @@
+/**
+ * Confirmation step shown before payments are signed
+ */
+
+import { createInterface } from "readline/promises";
+import { PaymentRequest, BatchMetadata } from "./client.js";
+import { parseAmount, formatAmount, sumAmounts } from "./amount.js";
+import { isMainnet } from "./policy.js";
+import { print, printError } from "./output.js";
+
+/** Default total above which non-interactive runs need --yes */
+const DEFAULT_CONFIRM_THRESHOLD = "$1";
+
+export interface PaymentSummary {
+  /** Settlement network, e.g. "base" or "solana-devnet" */
+  network: string;
+  /** Human-readable network name */
+  networkLabel: string;
+  /** Address the payment is signed with */
+  sender: string;
+  payments: PaymentRequest[];
+  metadata?: BatchMetadata;
+}
+
+/**
+ * Total above which a non-interactive run must pass --yes
+ * ($SNACKMONEY_CONFIRM_THRESHOLD, default $1)
+ *
+ * @returns The threshold in base units
+ */
+export function confirmThreshold(): bigint {
+  const value =
+    process.env.SNACKMONEY_CONFIRM_THRESHOLD || DEFAULT_CONFIRM_THRESHOLD;
+  try {
+    return parseAmount(value);
+  } catch (error: unknown) {
+    throw new Error(
+      `Invalid SNACKMONEY_CONFIRM_THRESHOLD: ${(error as Error).message}`,
+    );
+  }
+}
+
+/**
+ * Print what is about to be paid
+ *
+ * @param summary - The payments and where they are paid from
+ */
+export function printPaymentSummary(summary: PaymentSummary): void {
+  const total = sumAmounts(summary.payments.map((p) => p.amount));
+  const count = summary.payments.length;
+
+  print("\n📝 Payment summary");
+  print(
+    `   Network:  ${summary.networkLabel} (${isMainnet(summary.network) ? "MAINNET - real funds" : "testnet"})`,
+  );
+  print(`   From:     ${summary.sender}`);
+  if (summary.metadata?.senderUsername) {
+    print(`   Sender:   ${summary.metadata.senderUsername}`);
+  }
+  if (summary.metadata?.campaign) {
+    print(`   Campaign: ${summary.metadata.campaign}`);
+  }
+  if (summary.metadata?.reference) {
+    print(`   Reference: ${summary.metadata.reference}`);
+  }
+  print("   Recipients:");
+  summary.payments.forEach(
+    ({ platform, receiver, amount, description }, index) => {
+      const memo = description ? `  "${description}"` : "";
+      print(
+        `     ${index + 1}. ${platform}/${receiver}: ${formatAmount(amount)} USDC${memo}`,
+      );
+    },
+  );
+  print(
+    `   Total:    ${formatAmount(total)} USDC to ${count} recipient${count === 1 ? "" : "s"}`,
+  );
+}
+
+/**
+ * Show the payment summary and ask for confirmation
+ *
+ * On a terminal an explicit "yes" is required unless --yes was given.
+ * Without a terminal, payments above the confirmation threshold are refused
+ * unless --yes was given.
+ *
+ * @param summary - The payments and where they are paid from
+ * @param yes - Whether --yes was given
+ * @returns True when the payments may go ahead
+ */
+export async function confirmPayments(
+  summary: PaymentSummary,
+  yes: boolean,
+): Promise<boolean> {
+  printPaymentSummary(summary);
+
+  if (yes) {
+    return true;
+  }
+
+  const total = sumAmounts(summary.payments.map((p) => p.amount));
+
+  if (!process.stdin.isTTY) {
+    const threshold = confirmThreshold();
+    if (total > threshold) {
+      printError(
+        `\n❌ Refusing to pay ${formatAmount(total)} USDC without confirmation: not running in a terminal and the total is over ${formatAmount(threshold)} USDC.`,
+      );
+      printError(
+        "   Pass --yes to confirm, or raise SNACKMONEY_CONFIRM_THRESHOLD.",
+      );
+      return false;
+    }
+    return true;
+  }
+
+  const confirmed = await promptYes(
+    `\nPay ${formatAmount(total)} USDC${isMainnet(summary.network) ? " on MAINNET" : ""}? Type "yes" to confirm: `,
+  );
+  if (!confirmed) {
+    printError("❌ Cancelled, nothing was paid");
+  }
+  return confirmed;
+}
+
+/**
+ * Ask a yes/no question on the terminal
+ *
+ * @param question - The question, including the answer hint
+ * @returns True when the answer is "y" or "yes"
+ */
+export async function promptYes(question: string): Promise<boolean> {
+  // Prompt on stderr so stdout stays clean for --output json
+  const rl = createInterface({ input: process.stdin, output: process.stderr });
+  try {
+    const answer = await rl.question(question);
+    return ["y", "yes"].includes(answer.trim().toLowerCase());
+  } finally {
+    rl.close();
+  }
+}
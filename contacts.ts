@@ -0,0 +1,227 @@
+import minimist from "minimist";
+import { existsSync, readFileSync, writeFileSync } from "fs";
+import { text } from "stream/consumers";
+import {
+  Contact,
+  addContact,
+  removeContact,
+  listContacts,
+  saveContacts,
+  parseContacts,
+  formatContacts,
+  contactsPath,
+} from "./addressbook.js";
+import { print, printError, setOutputFormat, emitResult } from "./output.js";
+
+/**
+ * Print usage for the contacts command
+ *
+ * @param log - Output function (stdout for --help, stderr for errors)
+ */
+function printUsage(log: (message: string) => void): void {
+  log("Usage: snackmoney contacts <command> [options]");
+  log("\nCommands:");
+  log(
+    "  add <alias> <platform/receiver> [--tag <tag>...] [--note <text>] [--force]",
+  );
+  log(
+    "                                  Save a contact (--force replaces one)",
+  );
+  log("  remove <alias>                  Delete a contact");
+  log("  list [--tag <tag>]              Show contacts, or one group");
+  log(
+    "  import <file|-> [--force]       Add contacts from a JSON or CSV file (- reads stdin)",
+  );
+  log(
+    "  export [file]                   Write contacts as JSON or CSV (stdout by default)",
+  );
+  log("\nOptions:");
+  log(
+    "  --format <format>   json or csv for import/export (default: from the file extension, else json)",
+  );
+  log("  --output <format>   text (default), plain or json (list)");
+  log("\nExamples:");
+  log("  snackmoney contacts add toly farcaster.xyz/toly --tag core-devs");
+  log(
+    "  snackmoney contacts add baker github.com/0xsnackbaker --tag core-devs --tag design",
+  );
+  log("  snackmoney send @toly 50¢");
+  log("  snackmoney batch-send group:core-devs:25¢");
+  log("  snackmoney batch-send @toly:50¢,@baker:1¢");
+  log("  snackmoney contacts export contacts.csv");
+}
+
+const args = minimist(process.argv.slice(2), {
+  string: ["_", "tag", "note", "format", "output"],
+  boolean: ["force", "help"],
+  alias: { o: "output", h: "help", t: "tag" },
+});
+
+const [command, ...params] = args._;
+
+/**
+ * The --tag values; repeatable and comma-separated
+ *
+ * @returns The tags
+ */
+function tagArgs(): string[] {
+  const values: string[] = [args.tag ?? []].flat();
+  return values.flatMap((value) => value.split(",")).filter(Boolean);
+}
+
+/**
+ * Format of an import or export file
+ *
+ * @param file - The file name, if any
+ * @returns json or csv
+ */
+function fileFormat(file?: string): "json" | "csv" {
+  const format = (
+    args.format || (file?.toLowerCase().endsWith(".csv") ? "csv" : "json")
+  ).toLowerCase();
+  if (format !== "json" && format !== "csv") {
+    throw new Error(`Invalid format: ${args.format}. Use json or csv`);
+  }
+  return format;
+}
+
+/**
+ * Print one contact
+ *
+ * @param contact - The contact
+ */
+function printContact(contact: Contact): void {
+  const tags = contact.tags.length ? `  [${contact.tags.join(", ")}]` : "";
+  const note = contact.note ? `  ${contact.note}` : "";
+  print(
+    `   @${contact.alias.padEnd(16)} ${`${contact.platform}/${contact.receiver}`.padEnd(32)}${tags}${note}`,
+  );
+}
+
+/**
+ * Run the contacts subcommand
+ */
+async function main(): Promise<void> {
+  switch (command) {
+    case "add": {
+      const contact = addContact(params[0], params[1], {
+        tags: tagArgs(),
+        note: args.note,
+        replace: args.force,
+      });
+      print(
+        `✅ Saved @${contact.alias} → ${contact.platform}/${contact.receiver}`,
+      );
+      break;
+    }
+
+    case "remove": {
+      const contact = removeContact(params[0]);
+      print(`✅ Removed @${contact.alias}`);
+      break;
+    }
+
+    case "list": {
+      const tags = tagArgs().map((tag) => tag.toLowerCase());
+      const contacts = listContacts().filter(
+        (c) =>
+          tags.length === 0 ||
+          c.tags.some((tag) => tags.includes(tag.toLowerCase())),
+      );
+      if (contacts.length === 0) {
+        print(
+          tags.length
+            ? `No contacts tagged ${tags.join(", ")}`
+            : "No contacts yet. Add one with: snackmoney contacts add <alias> <platform/receiver>",
+        );
+      } else {
+        print(`📇 Contacts in ${contactsPath()}:\n`);
+        contacts.forEach(printContact);
+      }
+      emitResult({ command: "contacts", contacts, payments: [] });
+      break;
+    }
+
+    case "import": {
+      const file = params[0];
+      if (file !== "-" && !existsSync(file)) {
+        throw new Error(`File not found: ${file}`);
+      }
+      const body =
+        file === "-" ? await text(process.stdin) : readFileSync(file, "utf-8");
+      const imported = parseContacts(body, fileFormat(file));
+
+      const contacts = listContacts();
+      const aliases = new Map(contacts.map((c) => [c.alias.toLowerCase(), c]));
+      let added = 0;
+      let replaced = 0;
+      const skipped: string[] = [];
+      for (const contact of imported) {
+        const existing = aliases.get(contact.alias.toLowerCase());
+        if (existing && !args.force) {
+          skipped.push(contact.alias);
+          continue;
+        }
+        if (existing) {
+          replaced++;
+        } else {
+          added++;
+        }
+        aliases.set(contact.alias.toLowerCase(), contact);
+      }
+      saveContacts([...aliases.values()]);
+
+      print(
+        `✅ Imported ${added} new contact${added === 1 ? "" : "s"}${replaced ? `, replaced ${replaced}` : ""}`,
+      );
+      if (skipped.length > 0) {
+        print(
+          `⚠️  Skipped ${skipped.length} existing: ${skipped.map((a) => `@${a}`).join(", ")} (pass --force to replace them)`,
+        );
+      }
+      break;
+    }
+
+    case "export": {
+      const file = params[0];
+      const body = formatContacts(listContacts(), fileFormat(file));
+      if (file) {
+        writeFileSync(file, body);
+        print(`✅ Exported contacts to ${file}`);
+      } else {
+        process.stdout.write(body);
+      }
+      break;
+    }
+  }
+}
+
+if (args.help) {
+  printUsage(console.log);
+  process.exit(0);
+}
+
+try {
+  setOutputFormat(args.output);
+} catch (error: unknown) {
+  printError(`❌ ${(error as Error).message}`);
+  process.exit(1);
+}
+
+const required: Record<string, number> = {
+  add: 2,
+  remove: 1,
+  list: 0,
+  import: 1,
+  export: 0,
+};
+
+if (!(command in required) || params.length < required[command]) {
+  printUsage(console.error);
+  process.exit(1);
+}
+
+main().catch((error: unknown) => {
+  printError(`❌ ${(error as Error).message}`);
+  process.exit(1);
+});
@@ -0,0 +1,213 @@
+/**
+ * Schedule expressions
+ *
+ * Five-field cron expressions (minute hour day-of-month month day-of-week,
+ * local time) with lists, ranges, steps, month/day names and shortcuts such
+ * as "@daily", and fixed intervals such as 30m, 12h, 1d or 2w.
+ */
+
+interface CronField {
+  values: Set<number>;
+  /**
+   * Whether the field starts with "*" (including steps such as "*\/2"), which
+   * matters for day-of-month/day-of-week
+   */
+  any: boolean;
+}
+
+export interface CronExpression {
+  source: string;
+  minute: CronField;
+  hour: CronField;
+  dayOfMonth: CronField;
+  month: CronField;
+  dayOfWeek: CronField;
+}
+
+const SHORTCUTS: Record<string, string> = {
+  "@hourly": "0 * * * *",
+  "@daily": "0 0 * * *",
+  "@midnight": "0 0 * * *",
+  "@weekly": "0 0 * * 0",
+  "@monthly": "0 0 1 * *",
+  "@yearly": "0 0 1 1 *",
+  "@annually": "0 0 1 1 *",
+};
+
+const MONTHS = "jan feb mar apr may jun jul aug sep oct nov dec".split(" ");
+const DAYS = "sun mon tue wed thu fri sat".split(" ");
+
+const UNIT_MS: Record<string, number> = {
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+  w: 7 * 24 * 60 * 60 * 1000,
+};
+
+/** How far ahead to look for the next match before giving up */
+const SEARCH_YEARS = 5;
+
+/**
+ * Parse one cron field
+ *
+ * @param text - The field, e.g. "1-5", "*\/15" or "mon,wed"
+ * @param name - Field name, for error messages
+ * @param min - Smallest allowed value
+ * @param max - Largest allowed value
+ * @param names - Names for the values starting at min, e.g. month names
+ * @returns The allowed values
+ */
+function parseField(
+  text: string,
+  name: string,
+  min: number,
+  max: number,
+  names: string[] = [],
+): CronField {
+  const values = new Set<number>();
+  const value = (part: string): number => {
+    const index = names.indexOf(part.toLowerCase());
+    const number = index !== -1 ? index + min : Number(part);
+    if (!/^\w+$/.test(part) || !Number.isInteger(number)) {
+      throw new Error(`Invalid ${name}: ${part}`);
+    }
+    if (number < min || number > max) {
+      throw new Error(`${name} ${part} is out of range ${min}-${max}`);
+    }
+    return number;
+  };
+
+  for (const part of text.split(",")) {
+    const [range, stepText] = part.split("/");
+    const step = stepText === undefined ? 1 : Number(stepText);
+    if (!Number.isInteger(step) || step < 1) {
+      throw new Error(`Invalid step in ${name}: ${part}`);
+    }
+
+    let start: number;
+    let end: number;
+    if (range === "*") {
+      [start, end] = [min, max];
+    } else if (range.includes("-")) {
+      const [from, to] = range.split("-");
+      [start, end] = [value(from), value(to)];
+      if (start > end) {
+        throw new Error(`Invalid range in ${name}: ${range}`);
+      }
+    } else {
+      start = value(range);
+      // "5/10" means every 10th value starting at 5
+      end = stepText === undefined ? start : max;
+    }
+    for (let v = start; v <= end; v += step) {
+      values.add(v);
+    }
+  }
+
+  return { values, any: text.startsWith("*") };
+}
+
+/**
+ * Parse a cron expression
+ *
+ * @param source - e.g. "0 9 * * mon" or "@daily"
+ * @returns The parsed expression
+ */
+export function parseCron(source: string): CronExpression {
+  const expanded = SHORTCUTS[source.trim().toLowerCase()] ?? source.trim();
+  const fields = expanded.split(/\s+/);
+  if (fields.length !== 5) {
+    throw new Error(
+      `Invalid cron expression: "${source}". Expected 5 fields: minute hour day-of-month month day-of-week`,
+    );
+  }
+
+  const dayOfWeek = parseField(fields[4], "day of week", 0, 7, DAYS);
+  // 7 is another name for Sunday
+  if (dayOfWeek.values.delete(7)) {
+    dayOfWeek.values.add(0);
+  }
+
+  const expression: CronExpression = {
+    source,
+    minute: parseField(fields[0], "minute", 0, 59),
+    hour: parseField(fields[1], "hour", 0, 23),
+    dayOfMonth: parseField(fields[2], "day of month", 1, 31),
+    month: parseField(fields[3], "month", 1, 12, MONTHS),
+    dayOfWeek,
+  };
+  // Reject expressions such as "0 0 30 2 *" that can never fire
+  nextCronRun(expression, new Date());
+  return expression;
+}
+
+/**
+ * Whether a day matches the day-of-month and day-of-week fields; when both
+ * are restricted either may match, as in standard cron
+ *
+ * @param expression - The cron expression
+ * @param date - The day
+ * @returns True when the expression can fire on that day
+ */
+function matchesDay(expression: CronExpression, date: Date): boolean {
+  const { dayOfMonth, dayOfWeek } = expression;
+  const byMonthDay = dayOfMonth.values.has(date.getDate());
+  const byWeekDay = dayOfWeek.values.has(date.getDay());
+  if (!dayOfMonth.any && !dayOfWeek.any) {
+    return byMonthDay || byWeekDay;
+  }
+  return byMonthDay && byWeekDay;
+}
+
+/**
+ * First time after a date that a cron expression fires
+ *
+ * @param expression - The cron expression
+ * @param after - The time to search from (exclusive)
+ * @returns The next run
+ */
+export function nextCronRun(expression: CronExpression, after: Date): Date {
+  const date = new Date(after.getTime());
+  date.setSeconds(0, 0);
+  date.setMinutes(date.getMinutes() + 1);
+  const limit = new Date(after.getTime());
+  limit.setFullYear(limit.getFullYear() + SEARCH_YEARS);
+
+  while (date <= limit) {
+    if (!expression.month.values.has(date.getMonth() + 1)) {
+      date.setMonth(date.getMonth() + 1, 1);
+      date.setHours(0, 0, 0, 0);
+    } else if (!matchesDay(expression, date)) {
+      date.setDate(date.getDate() + 1);
+      date.setHours(0, 0, 0, 0);
+    } else if (!expression.hour.values.has(date.getHours())) {
+      date.setHours(date.getHours() + 1, 0, 0, 0);
+    } else if (!expression.minute.values.has(date.getMinutes())) {
+      date.setMinutes(date.getMinutes() + 1, 0, 0);
+    } else {
+      return date;
+    }
+  }
+  throw new Error(
+    `Cron expression "${expression.source}" never fires in the next ${SEARCH_YEARS} years`,
+  );
+}
+
+/**
+ * Parse an interval such as 30m, 12h, 1d or 2w
+ *
+ * @param text - The interval
+ * @returns The interval in milliseconds
+ */
+export function parseInterval(text: string): number {
+  const match = text
+    .trim()
+    .toLowerCase()
+    .match(/^(\d+)\s*([mhdw])$/);
+  if (!match || Number(match[1]) === 0) {
+    throw new Error(
+      `Invalid interval: ${text}. Use a number with m, h, d or w, e.g. 30m, 12h, 1d or 2w`,
+    );
+  }
+  return Number(match[1]) * UNIT_MS[match[2]];
+}
@@ -0,0 +1,101 @@
+/**
+ * Minimal CSV/TSV reader for payout spreadsheets
+ *
+ * Supports quoted fields ("a, b"), escaped quotes ("say ""hi""") and quoted
+ * line breaks, and keeps the line number each row started on for error messages.
+ */
+
+export interface DelimitedRow {
+  /** 1-based line number the row starts on */
+  line: number;
+  fields: string[];
+}
+
+/**
+ * Split delimited text into rows, skipping blank lines
+ *
+ * @param text - The file contents
+ * @param delimiter - Field separator ("," for CSV, "\t" for TSV)
+ * @returns The rows
+ */
+export function parseDelimited(
+  text: string,
+  delimiter: string,
+): DelimitedRow[] {
+  const rows: DelimitedRow[] = [];
+  let fields: string[] = [];
+  let field = "";
+  let quoted = false;
+  let line = 1;
+  let rowLine = 1;
+
+  const endRow = () => {
+    fields.push(field);
+    if (fields.length > 1 || fields[0].trim() !== "") {
+      rows.push({ line: rowLine, fields });
+    }
+    fields = [];
+    field = "";
+  };
+
+  // Strip a UTF-8 byte order mark left by spreadsheet exports
+  const input = text.replace(/^\uFEFF/, "");
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        if (char === "\n") {
+          line++;
+        }
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"' && field.trim() === "") {
+      field = "";
+      quoted = true;
+    } else if (char === delimiter) {
+      fields.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && input[i + 1] === "\n") {
+        i++;
+      }
+      endRow();
+      line++;
+      rowLine = line;
+    } else {
+      field += char;
+    }
+  }
+
+  if (quoted) {
+    throw new Error(`Line ${rowLine}: unterminated quoted field`);
+  }
+  endRow();
+
+  return rows;
+}
+
+/**
+ * Write rows as delimited text, quoting fields that need it
+ *
+ * @param rows - The rows, header first
+ * @param delimiter - Field separator ("," for CSV, "\t" for TSV)
+ * @returns The file contents, one line per row
+ */
+export function formatDelimited(rows: string[][], delimiter: string): string {
+  const quote = (field: string) =>
+    field.includes(delimiter) || /["\r\n]/.test(field)
+      ? `"${field.replace(/"/g, '""')}"`
+      : field;
+  return rows.map((row) => row.map(quote).join(delimiter) + "\n").join("");
+}
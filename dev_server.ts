@@ -0,0 +1,256 @@
+import minimist from "minimist";
+import { formatAmount, parseAmount, sumAmounts } from "./amount.js";
+import {
+  DEFAULT_DEV_SERVER_PORT,
+  DevPayment,
+  DevServer,
+  DevServerOptions,
+  FaultOptions,
+  parseFaultMode,
+} from "./emulator.js";
+import { print, printError } from "./output.js";
+
+/**
+ * Print usage for the dev-server command
+ *
+ * @param log - Output function (stdout for --help, stderr for errors)
+ */
+function printUsage(log: (message: string) => void): void {
+  log("Usage: snackmoney dev-server [options]");
+  log(
+    "\nRuns a local emulator of the Snack Money payments API. Point RESOURCE_SERVER_URL at it",
+  );
+  log(
+    "to run send, batch-send and ai-agent end to end: payments are signed and checked, never settled.",
+  );
+  log("\nOptions:");
+  log(
+    `  --port <port>             Port to listen on (default: ${DEFAULT_DEV_SERVER_PORT}, 0 for any free port)`,
+  );
+  log(
+    "  --host <host>             Interface to listen on (default: 127.0.0.1)",
+  );
+  log(
+    "  --network <networks>      Comma-separated networks offered in challenges (default: all)",
+  );
+  log(
+    "  --fee <amount>            Fee charged on top of each request (default: 0)",
+  );
+  log(
+    "  --pay-to <address>        EVM or Solana address payments are made out to (default: generated)",
+  );
+  log("  --latency <ms>            Delay every response");
+  log("\nFailure injection:");
+  log(
+    "  --fail <failure>          Answer paid requests with an HTTP status (e.g. 503), drop the",
+  );
+  log(
+    "                            connection before settling (drop) or after settling (lost)",
+  );
+  log(
+    "  --fail-count <n>          Only fail the first n paid requests (default: all of them)",
+  );
+  log("  --fail-rate <0-1>         Only fail this share of paid requests");
+  log(
+    "  --retry-after <seconds>   Retry-After header sent with injected 429 and 503 responses",
+  );
+  log(
+    "  --fail-receiver <name>    Receiver that cannot be paid (repeatable): refused in single payments,",
+  );
+  log("                            reported as failed in batch payments");
+  log("\nExamples:");
+  log("  snackmoney dev-server");
+  log("  snackmoney dev-server --network base-sepolia --fee 1¢");
+  log("  snackmoney dev-server --fail 503 --fail-count 2 --retry-after 1");
+  log("  snackmoney dev-server --fail-receiver bob");
+  log(
+    "  RESOURCE_SERVER_URL=http://127.0.0.1:4402 snackmoney send farcaster.xyz/toly 50¢",
+  );
+}
+
+const args = minimist(process.argv.slice(2), {
+  string: [
+    "port",
+    "host",
+    "network",
+    "fee",
+    "pay-to",
+    "latency",
+    "fail",
+    "fail-count",
+    "fail-rate",
+    "retry-after",
+    "fail-receiver",
+  ],
+  alias: { h: "help" },
+});
+
+if (args.help) {
+  printUsage(console.log);
+  process.exit(0);
+}
+
+/**
+ * Values of an option that may be repeated or comma-separated
+ *
+ * @param value - The option value(s)
+ * @returns The values
+ */
+function listOption(value: string | string[] | undefined): string[] {
+  return [value ?? []]
+    .flat()
+    .flatMap((item) => item.split(","))
+    .map((item) => item.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Parse a whole-number option
+ *
+ * @param value - The option value
+ * @param name - The option's name, for errors
+ * @param min - Smallest allowed value
+ * @returns The number
+ */
+function integerOption(value: string, name: string, min: number): number {
+  const number = Number(value);
+  if (!Number.isInteger(number) || number < min) {
+    throw new Error(`Invalid ${name}: ${value}`);
+  }
+  return number;
+}
+
+/**
+ * Build the emulator options from the command line
+ *
+ * @returns The options
+ */
+function serverOptions(): DevServerOptions {
+  const faults: FaultOptions = {
+    receivers: listOption(args["fail-receiver"]),
+  };
+  if (args.fail !== undefined) {
+    faults.mode = parseFaultMode(args.fail);
+  }
+  if (args["fail-count"] !== undefined) {
+    faults.count = integerOption(args["fail-count"], "fail count", 1);
+  }
+  if (args["fail-rate"] !== undefined) {
+    faults.rate = Number(args["fail-rate"]);
+    if (!(faults.rate > 0 && faults.rate <= 1)) {
+      throw new Error(
+        `Invalid fail rate: ${args["fail-rate"]}. Use a number above 0, up to 1`,
+      );
+    }
+  }
+  if (args["retry-after"] !== undefined) {
+    faults.retryAfter = integerOption(args["retry-after"], "retry-after", 0);
+  }
+  if (faults.mode === undefined && (faults.count || faults.rate)) {
+    throw new Error("--fail-count and --fail-rate need --fail");
+  }
+
+  const payTo: DevServerOptions["payTo"] = {};
+  for (const address of listOption(args["pay-to"])) {
+    payTo[address.startsWith("0x") ? "evm" : "svm"] = address;
+  }
+
+  return {
+    port:
+      args.port === undefined
+        ? DEFAULT_DEV_SERVER_PORT
+        : integerOption(args.port, "port", 0),
+    host: args.host,
+    networks: listOption(args.network),
+    fee: args.fee === undefined ? undefined : parseAmount(args.fee),
+    latencyMs:
+      args.latency === undefined
+        ? undefined
+        : integerOption(args.latency, "latency", 0),
+    payTo,
+    faults,
+  };
+}
+
+/**
+ * Describe an accepted payment
+ *
+ * @param payment - The payment
+ * @returns e.g. "farcaster/toly 0.5 USDC" or "3 receivers on x, 1.5 USDC"
+ */
+function describePayment(payment: DevPayment): string {
+  const [first] = payment.receivers;
+  const failed = payment.receivers.filter((r) => r.status === "failed").length;
+  if (!payment.batch) {
+    return `${payment.platform}/${first.receiver} ${formatAmount(first.amount)} USDC`;
+  }
+  const total = sumAmounts(payment.receivers.map((r) => r.amount));
+  return `${payment.receivers.length} receivers on ${payment.platform}, ${formatAmount(total)} USDC${failed ? ` (${failed} failed)` : ""}`;
+}
+
+let options: DevServerOptions;
+let server: DevServer;
+try {
+  options = serverOptions();
+  server = new DevServer(options);
+} catch (error: unknown) {
+  printError(`❌ ${(error as Error).message}`);
+  printUsage(console.error);
+  process.exit(1);
+}
+
+server.on("request:challenged", ({ path, amount }) =>
+  print(`💳 402 ${path} (${formatAmount(amount)} USDC)`),
+);
+server.on("payment:settled", (payment) =>
+  print(
+    `✅ ${payment.txnId} ${describePayment(payment)} charged ${formatAmount(payment.charged)} USDC to ${payment.payer} on ${payment.network}`,
+  ),
+);
+server.on("payment:rejected", ({ path, reason, payer }) =>
+  print(`❌ ${path} rejected: ${reason}${payer ? ` (payer ${payer})` : ""}`),
+);
+server.on("fault:injected", ({ path, mode }) =>
+  print(`⚡ Injected ${mode} on ${path}`),
+);
+
+/**
+ * Start the emulator and run until interrupted
+ */
+async function main(): Promise<void> {
+  const url = await server.start();
+  const { evm, svm, feePayer } = server.accounts;
+
+  print(`🧪 Snack Money dev server listening on ${url}`);
+  print(`   Networks: ${server.offeredNetworks.map((n) => n.id).join(", ")}`);
+  print(`   Pay to:   ${evm} (EVM), ${svm} (Solana)`);
+  print(`   Solana fee payer: ${feePayer}`);
+  if (options.fee) {
+    print(`   Fee:      ${formatAmount(options.fee)} USDC per request`);
+  }
+  const faults = options.faults!;
+  if (faults.mode !== undefined) {
+    print(
+      `   Failing:  ${faults.mode}${faults.count ? `, first ${faults.count} paid request${faults.count === 1 ? "" : "s"}` : ""}${faults.rate ? `, ${faults.rate * 100}% of paid requests` : ""}`,
+    );
+  }
+  if (faults.receivers?.length) {
+    print(`   Failing receivers: ${faults.receivers.join(", ")}`);
+  }
+  print(
+    "   Signed payments are checked but never settled: no funds move on chain",
+  );
+  print(`\n   export RESOURCE_SERVER_URL=${url}\n`);
+
+  const stop = () => {
+    print("\n👋 Stopping the dev server");
+    server.stop().then(() => process.exit(0));
+  };
+  process.on("SIGINT", stop);
+  process.on("SIGTERM", stop);
+}
+
+main().catch((error: unknown) => {
+  printError(`❌ ${(error as Error).message}`);
+  process.exit(1);
+});
@@ -0,0 +1,166 @@
+import minimist from "minimist";
+import { PaymentRequirements } from "@x402/axios";
+import { formatAmount } from "./amount.js";
+import { requiredAmount } from "./display.js";
+import {
+  DiscoveredResource,
+  facilitatorUrl,
+  fetchResources,
+  filterResources,
+} from "./discovery.js";
+import { findNetwork } from "./networks.js";
+import { applyProfile } from "./profiles.js";
+import { print, printError, setOutputFormat, emitResult } from "./output.js";
+
+/**
+ * Print usage for the discover command
+ *
+ * @param log - Output function (stdout for --help, stderr for errors)
+ */
+function printUsage(log: (message: string) => void): void {
+  log("Usage: snackmoney discover [filters] [--facilitator <url>]");
+  log(
+    "\nLists the paid x402 resources a facilitator knows about and what they accept.",
+  );
+  log("\nFilters:");
+  log(
+    "  --network <network>   Accepted network: base, base-sepolia, solana, solana-devnet, a custom network or a CAIP-2 id",
+  );
+  log(
+    "  --asset <address>     Accepted asset address, or usdc for USDC on any network",
+  );
+  log(
+    "  --host <host>         Resources on this host or its subdomains, e.g. snack.money",
+  );
+  log("  --limit <n>           Show at most n resources");
+  log("\nOptions:");
+  log(
+    "  --facilitator <url>   Facilitator to query (default: SNACKMONEY_FACILITATOR_URL or Coinbase's)",
+  );
+  log("  --profile <name>      Use a named profile from the config file");
+  log("  --output <format>     text (default), plain or json");
+  log("\nExamples:");
+  log("  snackmoney discover --host snack.money");
+  log("  snackmoney discover --network base-sepolia --asset usdc");
+  log(
+    "  snackmoney discover --facilitator http://localhost:4021 --output json",
+  );
+}
+
+const args = minimist(process.argv.slice(2), {
+  string: [
+    "network",
+    "asset",
+    "host",
+    "limit",
+    "facilitator",
+    "profile",
+    "output",
+  ],
+  alias: { o: "output" },
+});
+
+if (args.help || args.h) {
+  printUsage(console.log);
+  process.exit(0);
+}
+
+let limit: number | undefined;
+
+try {
+  setOutputFormat(args.output || applyProfile(args.profile).output);
+  if (args.limit !== undefined) {
+    limit = Number(args.limit);
+    if (!Number.isInteger(limit) || limit < 1) {
+      throw new Error(`Invalid limit: ${args.limit}`);
+    }
+  }
+} catch (error: unknown) {
+  printError(`❌ ${(error as Error).message}`);
+  printError("");
+  printUsage(console.error);
+  process.exit(1);
+}
+
+/**
+ * Describe what a payment option asks for
+ *
+ * @param accept - The payment option
+ * @returns e.g. "0.01 USDC on Base (eip155:8453)"
+ */
+function describeAccept(accept: PaymentRequirements): string {
+  const network = findNetwork(accept.network);
+  const amount = requiredAmount(accept);
+  const price =
+    network && network.usdc.toLowerCase() === accept.asset?.toLowerCase()
+      ? `${formatAmount(amount)} USDC`
+      : `${amount} base units of ${accept.asset}`;
+  const where = network
+    ? `${network.name} (${accept.network})`
+    : accept.network;
+  return `${price} on ${where}`;
+}
+
+/**
+ * Print one resource and its payment options
+ *
+ * @param item - The resource
+ */
+function printResource(item: DiscoveredResource): void {
+  print(`\n🔗 ${item.resource}`);
+  // v2 describes the resource in its metadata, v1 in each payment option
+  const accepts = item.accepts as (PaymentRequirements & {
+    description?: string;
+  })[];
+  const description =
+    (item.metadata?.description as string | undefined) ||
+    accepts.find((a) => a.description)?.description;
+  if (description) {
+    print(`   ${description}`);
+  }
+  item.accepts.forEach((accept, i) => {
+    print(`   ${i + 1}. ${accept.scheme} - ${describeAccept(accept)}`);
+    print(`      Pay to: ${accept.payTo} | Asset: ${accept.asset}`);
+  });
+  if (item.lastUpdated) {
+    print(`   Updated: ${item.lastUpdated}`);
+  }
+}
+
+/**
+ * Query the facilitator and print the matching resources
+ */
+async function main(): Promise<void> {
+  const url: string = args.facilitator || facilitatorUrl();
+  print(`🔎 Discovering resources from ${url}`);
+
+  const all = await fetchResources(url);
+  const matching = filterResources(all, {
+    network: args.network,
+    asset: args.asset,
+    host: args.host,
+  });
+  const shown = limit ? matching.slice(0, limit) : matching;
+
+  print(`   ${matching.length} of ${all.length} resources match`);
+  shown.forEach(printResource);
+  if (shown.length < matching.length) {
+    print(
+      `\n… ${matching.length - shown.length} more, raise --limit to see them`,
+    );
+  }
+
+  emitResult({
+    command: "discover",
+    facilitator: url,
+    total: all.length,
+    matching: matching.length,
+    resources: shown,
+    payments: [],
+  });
+}
+
+main().catch((error: unknown) => {
+  printError(`❌ ${(error as Error).message}`);
+  process.exit(1);
+});
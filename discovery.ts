@@ -0,0 +1,165 @@
+/**
+ * x402 resource discovery
+ *
+ * Facilitators list the paid resources they settle for at
+ * GET <facilitator>/discovery/resources (the x402 "Bazaar"). The facilitator
+ * URL defaults to Coinbase's and can be set with --facilitator,
+ * SNACKMONEY_FACILITATOR_URL or the facilitatorUrl profile setting, e.g. to
+ * point at a local stand-in.
+ */
+
+import axios from "axios";
+import { PaymentRequirements } from "@x402/axios";
+import { findNetwork } from "./networks.js";
+
+export const DEFAULT_FACILITATOR_URL =
+  "https://api.cdp.coinbase.com/platform/v2/x402";
+
+/** Resources requested per discovery call */
+const PAGE_SIZE = 100;
+
+export interface DiscoveredResource {
+  /** URL of the paid resource */
+  resource: string;
+  /** Resource type, "http" for HTTP endpoints */
+  type: string;
+  x402Version: number;
+  /** Payment options the resource accepts */
+  accepts: PaymentRequirements[];
+  lastUpdated?: string;
+  metadata?: Record<string, unknown>;
+}
+
+export interface DiscoveryFilter {
+  /** Network id or CAIP-2 id the resource must accept */
+  network?: string;
+  /** Asset address the resource must accept, or "usdc" for USDC on any network */
+  asset?: string;
+  /** Host the resource URL must be on; subdomains match too */
+  host?: string;
+}
+
+/**
+ * Facilitator queried for discovery
+ *
+ * @returns SNACKMONEY_FACILITATOR_URL or the default facilitator
+ */
+export function facilitatorUrl(): string {
+  return process.env.SNACKMONEY_FACILITATOR_URL || DEFAULT_FACILITATOR_URL;
+}
+
+/**
+ * List every resource a facilitator knows about, following pagination
+ *
+ * @param url - Facilitator base URL
+ * @returns The resources
+ */
+export async function fetchResources(
+  url = facilitatorUrl(),
+): Promise<DiscoveredResource[]> {
+  const endpoint = `${url.replace(/\/+$/, "")}/discovery/resources`;
+  const resources: DiscoveredResource[] = [];
+
+  for (let offset = 0; ; offset += PAGE_SIZE) {
+    let data;
+    try {
+      ({ data } = await axios.get(endpoint, {
+        params: { type: "http", limit: PAGE_SIZE, offset },
+      }));
+    } catch (error: unknown) {
+      throw new Error(
+        `Discovery failed at ${endpoint}: ${(error as Error).message}`,
+      );
+    }
+    if (!Array.isArray(data?.items)) {
+      throw new Error(
+        `Discovery failed at ${endpoint}: the response has no items list`,
+      );
+    }
+    resources.push(...data.items);
+
+    // Stop on the last page, or when the server does not paginate at all
+    const total = data.pagination?.total;
+    if (
+      data.items.length === 0 ||
+      typeof total !== "number" ||
+      offset + data.items.length >= total
+    ) {
+      return resources;
+    }
+  }
+}
+
+/**
+ * Whether a payment option matches the network and asset filters
+ *
+ * @param accept - The payment option
+ * @param filter - The filters
+ * @returns True when it matches
+ */
+export function acceptMatches(
+  accept: PaymentRequirements,
+  filter: DiscoveryFilter,
+): boolean {
+  if (filter.network) {
+    // A known network matches by id (x402 v1) or CAIP-2 id (v2)
+    const network = findNetwork(filter.network);
+    const names = network ? [network.id, network.caip2] : [filter.network];
+    if (!names.includes(accept.network)) {
+      return false;
+    }
+  }
+  if (filter.asset) {
+    const asset =
+      filter.asset.toLowerCase() === "usdc"
+        ? findNetwork(accept.network)?.usdc
+        : filter.asset;
+    if (!asset || asset.toLowerCase() !== accept.asset?.toLowerCase()) {
+      return false;
+    }
+  }
+  return true;
+}
+
+/**
+ * Whether a resource URL is on a host or one of its subdomains
+ *
+ * @param resource - The resource URL
+ * @param host - The host, e.g. "snack.money"
+ * @returns True when it matches
+ */
+function hostMatches(resource: string, host: string): boolean {
+  let hostname: string;
+  try {
+    hostname = new URL(resource).hostname.toLowerCase();
+  } catch {
+    return false;
+  }
+  const wanted = host.toLowerCase();
+  return hostname === wanted || hostname.endsWith(`.${wanted}`);
+}
+
+/**
+ * Keep the resources matching the filters, and only their matching payment
+ * options
+ *
+ * @param resources - The discovered resources
+ * @param filter - The filters
+ * @returns The matching resources
+ */
+export function filterResources(
+  resources: DiscoveredResource[],
+  filter: DiscoveryFilter,
+): DiscoveredResource[] {
+  return resources
+    .filter(
+      ({ resource }) => !filter.host || hostMatches(resource, filter.host),
+    )
+    .map((resource) => ({
+      ...resource,
+      accepts: (resource.accepts ?? []).filter((accept) =>
+        acceptMatches(accept, filter),
+      ),
+    }))
+    .filter(({ accepts }) => accepts.length > 0);
+}
@@ -0,0 +1,89 @@
+/**
+ * Shared terminal output for payment commands
+ */
+
+import { PaymentRequirements } from "@x402/axios";
+import { PaymentQuote, SnackMoneyClient } from "./client.js";
+import { formatAmount } from "./amount.js";
+import { print, printError } from "./output.js";
+
+/**
+ * Amount an x402 payment option asks for, in the asset's base units
+ * (v2 challenges use "amount", v1 used "maxAmountRequired")
+ *
+ * @param requirements - The payment option
+ * @returns The amount in base units
+ */
+export function requiredAmount(requirements: PaymentRequirements): bigint {
+  const { amount, maxAmountRequired } = requirements as PaymentRequirements & {
+    maxAmountRequired?: string;
+  };
+  return BigInt(amount ?? maxAmountRequired ?? 0);
+}
+
+/**
+ * Print the payment options offered in a 402 response
+ *
+ * @param accepts - The offered payment options
+ */
+export function printPaymentOptions(accepts: PaymentRequirements[]): void {
+  print("\n💡 Available payment options:");
+  accepts.forEach((accept, i) => {
+    print(`   ${i + 1}. ${accept.network} - Pay to: ${accept.payTo}`);
+  });
+}
+
+/**
+ * Print what a dry run would have signed
+ *
+ * @param quote - The decoded 402 challenge
+ * @param requestedTotal - Sum of the requested payment amounts in base units
+ * @param recipients - Number of recipients covered by the payment
+ */
+export function printPaymentQuote(
+  quote: PaymentQuote,
+  requestedTotal: bigint,
+  recipients: number,
+): void {
+  print(`📋 Payment requirements (x402 v${quote.x402Version})`);
+  if (quote.resource) {
+    print(`   Resource: ${quote.resource}`);
+  }
+  quote.accepts.forEach((accept, i) => {
+    const marker = accept === quote.selected ? "  ← would sign" : "";
+    print(
+      `   ${i + 1}. ${accept.network} - Pay to: ${accept.payTo} | ${formatAmount(requiredAmount(accept))} (${requiredAmount(accept)}) | Asset: ${accept.asset}${marker}`,
+    );
+  });
+
+  if (!quote.selected) {
+    print("\n⚠️  None of the options match the selected network");
+    return;
+  }
+
+  const amount = requiredAmount(quote.selected);
+  print("\n✍️  Would sign:");
+  print(`   Scheme:   ${quote.selected.scheme}`);
+  print(`   Network:  ${quote.selected.network}`);
+  print(`   Pay to:   ${quote.selected.payTo}`);
+  print(`   Asset:    ${quote.selected.asset}`);
+  print(`   Amount:   ${amount} base units (${formatAmount(amount)})`);
+
+  print(
+    `\n💰 Total: ${formatAmount(amount)} USDC for ${recipients} recipient${recipients === 1 ? "" : "s"} (requested ${formatAmount(requestedTotal)} USDC)`,
+  );
+}
+
+/**
+ * Report each request the client retries after a transient failure
+ *
+ * @param client - The client to follow
+ */
+export function printRetries(client: SnackMoneyClient): void {
+  client.on("request:retry", ({ retry, retries, delayMs, error }) => {
+    const reason = error.status ? `HTTP ${error.status}` : error.message;
+    printError(
+      `⚠️  Request failed (${reason}), retrying in ${(delayMs / 1000).toFixed(1)}s (retry ${retry}/${retries})`,
+    );
+  });
+}
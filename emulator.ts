@@ -0,0 +1,656 @@
+/**
+ * Local Snack Money API emulator
+ *
+ * Serves /payments/{platform}/pay and /payments/{platform}/batch-pay the way
+ * api.snack.money does: unpaid requests get an x402 v2 challenge, and paid
+ * retries have their signed payment checked offline (see signatures.ts) and
+ * get a txn_id, receipts and a payment-response header back. Nothing is
+ * settled, so test wallets need no funds. Failures can be injected to
+ * exercise retries, lost responses and partially failed batches.
+ */
+
+import { EventEmitter } from "events";
+import {
+  IncomingMessage,
+  Server,
+  ServerResponse,
+  STATUS_CODES,
+  createServer,
+} from "http";
+import { AddressInfo } from "net";
+import { randomBytes } from "crypto";
+import { PaymentPayload, PaymentRequirements } from "@x402/axios";
+import { generatePrivateKey, privateKeyToAccount } from "viem/accounts";
+import { generateKeyPairSigner } from "@solana/kit";
+import bs58 from "bs58";
+import { parseAmount, sumAmounts } from "./amount.js";
+import { BatchReceiver } from "./client.js";
+import { NetworkConfig, getNetwork, listNetworks } from "./networks.js";
+import { PLATFORMS, Platform, validateReceiver } from "./platforms.js";
+import { PayloadCheck, checkPaymentPayload } from "./signatures.js";
+import { IDEMPOTENCY_HEADER } from "./retry.js";
+
+export const DEFAULT_DEV_SERVER_PORT = 4402;
+
+/** EIP-712 domain name of USDC where it differs from "USD Coin" */
+const USDC_DOMAIN_NAMES: Record<string, string> = {
+  "base-sepolia": "USDC",
+};
+
+/**
+ * An HTTP status to answer paid requests with, "drop" to close the
+ * connection before settling, or "lost" to settle and then close it
+ */
+export type FaultMode = number | "drop" | "lost";
+
+export interface FaultOptions {
+  mode?: FaultMode;
+  /** Fail only the first n paid requests */
+  count?: number;
+  /** Fail each paid request with this probability, from 0 to 1 */
+  rate?: number;
+  /** Retry-After header sent with injected 429 and 503 responses, in seconds */
+  retryAfter?: number;
+  /**
+   * Receivers that cannot be paid: single payments to them are refused,
+   * batch payments settle and report them as failed
+   */
+  receivers?: string[];
+}
+
+export interface DevServerOptions {
+  port?: number;
+  host?: string;
+  /** Networks offered in challenges, defaulting to every known network */
+  networks?: string[];
+  /** Fee charged on top of each request's amount, in base units */
+  fee?: bigint;
+  /** Delay before every response, in milliseconds */
+  latencyMs?: number;
+  /** EVM and Solana addresses payments are made out to; generated when omitted */
+  payTo?: { evm?: string; svm?: string };
+  faults?: FaultOptions;
+}
+
+export interface DevReceiver extends BatchReceiver {
+  status: "paid" | "failed";
+  receipt: string;
+}
+
+/** A payment the emulator accepted */
+export interface DevPayment {
+  txnId: string;
+  platform: Platform;
+  batch: boolean;
+  receivers: DevReceiver[];
+  /** CAIP-2 id of the network the payment was signed for */
+  network: string;
+  payer: string;
+  /** Made-up settlement transaction */
+  transaction: string;
+  /** Amount the signed payment charged in base units, fee included */
+  charged: bigint;
+  idempotencyKey?: string;
+  timestamp: string;
+}
+
+export type DevServerEvents = {
+  "request:challenged": [{ path: string; amount: bigint }];
+  "payment:settled": [DevPayment];
+  "payment:rejected": [{ path: string; reason: string; payer?: string }];
+  "fault:injected": [{ path: string; mode: FaultMode }];
+};
+
+/** A response kept for replaying requests with a known idempotency key */
+interface StoredResponse {
+  path: string;
+  headers: Record<string, string>;
+  body: unknown;
+}
+
+/** The payment a request asks for */
+interface PaymentOrder {
+  platform: Platform;
+  batch: boolean;
+  receivers: BatchReceiver[];
+  total: bigint;
+}
+
+/** A request the API refuses with a status and message */
+class RequestError extends Error {
+  readonly status: number;
+
+  /**
+   * Create a refusal
+   *
+   * @param status - HTTP status
+   * @param message - The msg returned to the client
+   */
+  constructor(status: number, message: string) {
+    super(message);
+    this.status = status;
+  }
+}
+
+/**
+ * Parse a failure to inject, e.g. from --fail
+ *
+ * @param text - An HTTP status from 400 to 599, "drop" or "lost"
+ * @returns The failure
+ */
+export function parseFaultMode(text: string): FaultMode {
+  const mode = text.trim().toLowerCase();
+  if (mode === "drop" || mode === "lost") {
+    return mode;
+  }
+  const status = Number(mode);
+  if (!Number.isInteger(status) || status < 400 || status > 599) {
+    throw new Error(
+      `Invalid failure: ${text}. Use an HTTP status such as 503, drop or lost`,
+    );
+  }
+  return status;
+}
+
+/**
+ * Encode a JSON value the way x402 headers carry it
+ *
+ * @param value - The value
+ * @returns Base64 of its JSON
+ */
+function encodeHeader(value: unknown): string {
+  return Buffer.from(JSON.stringify(value)).toString("base64");
+}
+
+/**
+ * Local emulator of the Snack Money payments API
+ *
+ * Emits an event for every challenge, accepted or rejected payment and
+ * injected failure.
+ */
+export class DevServer extends EventEmitter<DevServerEvents> {
+  private readonly options: DevServerOptions;
+  private readonly networks: NetworkConfig[];
+  private server?: Server;
+  private payTo?: { evm: string; svm: string };
+  private feePayer?: string;
+  private faultsInjected = 0;
+  private readonly payments = new Map<string, DevPayment>();
+  private readonly responses = new Map<string, StoredResponse>();
+  private readonly usedNonces = new Set<string>();
+
+  /**
+   * Create an emulator; it listens once start() is called
+   *
+   * @param options - Port, offered networks, fees and failures to inject
+   */
+  constructor(options: DevServerOptions = {}) {
+    super();
+    this.options = options;
+    this.networks = options.networks?.length
+      ? options.networks.map((id) => getNetwork(id))
+      : Object.values(listNetworks());
+  }
+
+  /**
+   * Base URL of the running server
+   *
+   * @returns e.g. "http://127.0.0.1:4402"
+   */
+  get url(): string {
+    const address = this.server?.address() as AddressInfo | null;
+    if (!address) {
+      throw new Error("The dev server is not running");
+    }
+    const host =
+      address.family === "IPv6" ? `[${address.address}]` : address.address;
+    return `http://${host}:${address.port}`;
+  }
+
+  /**
+   * Addresses payments are made out to, and the Solana fee payer
+   *
+   * @returns The addresses
+   */
+  get accounts(): { evm: string; svm: string; feePayer: string } {
+    if (!this.payTo || !this.feePayer) {
+      throw new Error("The dev server is not running");
+    }
+    return { ...this.payTo, feePayer: this.feePayer };
+  }
+
+  /**
+   * Networks offered in challenges
+   *
+   * @returns The networks
+   */
+  get offeredNetworks(): NetworkConfig[] {
+    return this.networks;
+  }
+
+  /**
+   * Create the payout addresses and start listening
+   *
+   * @returns The URL to use as RESOURCE_SERVER_URL
+   */
+  async start(): Promise<string> {
+    const [svmPayTo, feePayer] = await Promise.all([
+      generateKeyPairSigner(),
+      generateKeyPairSigner(),
+    ]);
+    this.payTo = {
+      evm:
+        this.options.payTo?.evm ||
+        privateKeyToAccount(generatePrivateKey()).address,
+      svm: this.options.payTo?.svm || svmPayTo.address,
+    };
+    this.feePayer = feePayer.address;
+
+    const server = createServer((req, res) => {
+      this.handle(req, res).catch((error: unknown) => {
+        this.send(res, 500, { msg: (error as Error).message });
+      });
+    });
+    this.server = server;
+    await new Promise<void>((resolve, reject) => {
+      server.once("error", reject);
+      server.listen(
+        this.options.port ?? DEFAULT_DEV_SERVER_PORT,
+        this.options.host ?? "127.0.0.1",
+        resolve,
+      );
+    });
+    return this.url;
+  }
+
+  /**
+   * Stop listening
+   */
+  async stop(): Promise<void> {
+    await new Promise<void>((resolve) => {
+      this.server?.closeAllConnections();
+      this.server?.close(() => resolve());
+    });
+  }
+
+  /**
+   * Payment options for a request charging an amount
+   *
+   * @param amount - Amount requested, in base units
+   * @returns One option per offered network
+   */
+  requirementsFor(amount: bigint): PaymentRequirements[] {
+    const charged = (amount + (this.options.fee ?? 0n)).toString();
+    const { evm, svm, feePayer } = this.accounts;
+    return this.networks.map((network) => ({
+      scheme: "exact",
+      network: network.caip2 as PaymentRequirements["network"],
+      asset: network.usdc,
+      amount: charged,
+      payTo: network.family === "svm" ? svm : evm,
+      maxTimeoutSeconds: 300,
+      extra:
+        network.family === "svm"
+          ? { feePayer }
+          : { name: USDC_DOMAIN_NAMES[network.id] ?? "USD Coin", version: "2" },
+    }));
+  }
+
+  /**
+   * Handle one request
+   *
+   * @param req - The request
+   * @param res - The response
+   */
+  private async handle(
+    req: IncomingMessage,
+    res: ServerResponse,
+  ): Promise<void> {
+    const chunks: Buffer[] = [];
+    for await (const chunk of req) {
+      chunks.push(chunk as Buffer);
+    }
+    if (this.options.latencyMs) {
+      await new Promise((resolve) =>
+        setTimeout(resolve, this.options.latencyMs),
+      );
+    }
+
+    const path = (req.url ?? "/").split("?")[0];
+    const receipt = path.match(/^\/receipts\/([\w-]+)$/);
+    if (req.method === "GET" && receipt) {
+      const payment = this.payments.get(receipt[1].replace(/-\d+$/, ""));
+      if (payment) {
+        this.send(res, 200, payment);
+      } else {
+        this.send(res, 404, { msg: "Receipt not found" });
+      }
+      return;
+    }
+
+    const route = path.match(/^\/payments\/([^/]+)\/(pay|batch-pay)$/);
+    if (req.method !== "POST" || !route) {
+      this.send(res, 404, { msg: `Cannot ${req.method} ${path}` });
+      return;
+    }
+
+    try {
+      const order = this.parseOrder(
+        route[1],
+        route[2] === "batch-pay",
+        Buffer.concat(chunks).toString("utf-8"),
+      );
+      await this.pay(req, res, path, order);
+    } catch (error: unknown) {
+      if (error instanceof RequestError) {
+        this.send(res, error.status, { msg: error.message });
+        return;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Read the payment a request asks for, validating it like the API
+   *
+   * @param platform - Platform from the path
+   * @param batch - Whether this is a batch-pay request
+   * @param text - The request body
+   * @returns The order
+   */
+  private parseOrder(
+    platform: string,
+    batch: boolean,
+    text: string,
+  ): PaymentOrder {
+    if (!PLATFORMS.includes(platform as Platform)) {
+      throw new RequestError(404, `Unknown platform: ${platform}`);
+    }
+    let body;
+    try {
+      body = JSON.parse(text || "{}");
+    } catch {
+      throw new RequestError(400, "Request body must be JSON");
+    }
+    if (body.currency !== "USDC") {
+      throw new RequestError(400, "currency must be USDC");
+    }
+
+    const raw: unknown[] = batch ? body.receivers : [body];
+    if (!Array.isArray(raw) || raw.length === 0) {
+      throw new RequestError(400, "receivers must be a non-empty array");
+    }
+    const receivers = raw.map((entry) => {
+      const { receiver, amount, description } = entry as Record<
+        string,
+        unknown
+      >;
+      try {
+        validateReceiver(platform as Platform, String(receiver ?? ""));
+        return {
+          receiver: String(receiver),
+          amount: parseAmount(String(amount ?? "")),
+          description:
+            typeof description === "string" ? description : undefined,
+        };
+      } catch (error: unknown) {
+        throw new RequestError(400, (error as Error).message);
+      }
+    });
+
+    if (!batch && this.failsReceiver(receivers[0].receiver)) {
+      throw new RequestError(
+        404,
+        `Receiver ${receivers[0].receiver} not found on ${platform}`,
+      );
+    }
+    return {
+      platform: platform as Platform,
+      batch,
+      receivers,
+      total: sumAmounts(receivers.map((r) => r.amount)),
+    };
+  }
+
+  /**
+   * Challenge, check and settle a payment request
+   *
+   * @param req - The request
+   * @param res - The response
+   * @param path - The request path
+   * @param order - The payment asked for
+   */
+  private async pay(
+    req: IncomingMessage,
+    res: ServerResponse,
+    path: string,
+    order: PaymentOrder,
+  ): Promise<void> {
+    // A retry of a settled request gets the original response back
+    const key = req.headers[IDEMPOTENCY_HEADER.toLowerCase()] as
+      | string
+      | undefined;
+    const stored = key ? this.responses.get(key) : undefined;
+    if (stored && stored.path === path) {
+      this.send(res, 200, stored.body, stored.headers);
+      return;
+    }
+
+    const accepts = this.requirementsFor(order.total);
+    const resource = `${this.url}${path}`;
+    const challenge = (error?: string) => {
+      const paymentRequired = {
+        x402Version: 2,
+        ...(error ? { error } : {}),
+        resource: {
+          url: resource,
+          description: `Snack Money ${order.batch ? "batch payment" : "payment"} on ${order.platform}`,
+          mimeType: "application/json",
+        },
+        accepts,
+      };
+      this.send(
+        res,
+        402,
+        {
+          msg: error ? `Payment rejected: ${error}` : "Payment required",
+          ...paymentRequired,
+        },
+        { "PAYMENT-REQUIRED": encodeHeader(paymentRequired) },
+      );
+    };
+
+    const header = req.headers["payment-signature"];
+    if (typeof header !== "string") {
+      this.emit("request:challenged", { path, amount: order.total });
+      challenge();
+      return;
+    }
+
+    let payload: PaymentPayload;
+    try {
+      payload = JSON.parse(Buffer.from(header, "base64").toString("utf-8"));
+    } catch {
+      this.emit("payment:rejected", { path, reason: "invalid_payload" });
+      challenge("invalid_payload");
+      return;
+    }
+    const requirements = accepts.find(
+      (r) => r.network === payload.accepted?.network,
+    );
+    const check: PayloadCheck = requirements
+      ? await checkPaymentPayload(payload, requirements)
+      : { valid: false, reason: "unsupported_network" };
+    if (check.valid && this.usedNonces.has(check.nonce!)) {
+      check.valid = false;
+      check.reason = "payment_already_used";
+    }
+    if (!check.valid) {
+      this.emit("payment:rejected", {
+        path,
+        reason: check.reason!,
+        payer: check.payer,
+      });
+      challenge(check.reason);
+      return;
+    }
+
+    const fault = this.nextFault();
+    if (fault !== undefined && fault !== "lost") {
+      this.emit("fault:injected", { path, mode: fault });
+      if (fault === "drop") {
+        req.socket.destroy();
+        return;
+      }
+      const retryAfter = this.options.faults?.retryAfter;
+      this.send(
+        res,
+        fault,
+        { msg: STATUS_CODES[fault] ?? "Injected failure" },
+        retryAfter !== undefined && (fault === 429 || fault === 503)
+          ? { "Retry-After": String(retryAfter) }
+          : {},
+      );
+      return;
+    }
+
+    const payment = this.settle(order, requirements!, check.payer!, key);
+    this.usedNonces.add(check.nonce!);
+    const settlement = {
+      success: true,
+      transaction: payment.transaction,
+      network: payment.network,
+      payer: payment.payer,
+    };
+    const headers = { "PAYMENT-RESPONSE": encodeHeader(settlement) };
+    const body = order.batch
+      ? {
+          msg: "Batch payment sent",
+          txn_id: payment.txnId,
+          data: payment.receivers.map(
+            ({ receiver, amount, status, receipt }) => ({
+              receiver,
+              amount: Number(amount) / 1e6,
+              status,
+              receipt,
+            }),
+          ),
+        }
+      : {
+          msg: "Payment sent",
+          txn_id: payment.txnId,
+          receipt: payment.receivers[0].receipt,
+        };
+    if (key) {
+      this.responses.set(key, { path, headers, body });
+    }
+    this.emit("payment:settled", payment);
+
+    if (fault === "lost") {
+      this.emit("fault:injected", { path, mode: fault });
+      req.socket.destroy();
+      return;
+    }
+    this.send(res, 200, body, headers);
+  }
+
+  /**
+   * Record an accepted payment, with made-up ids and settlement transaction
+   *
+   * @param order - The payment asked for
+   * @param requirements - The payment option that was signed
+   * @param payer - The payer's address
+   * @param idempotencyKey - The request's idempotency key
+   * @returns The payment
+   */
+  private settle(
+    order: PaymentOrder,
+    requirements: PaymentRequirements,
+    payer: string,
+    idempotencyKey?: string,
+  ): DevPayment {
+    const txnId = `txn_${randomBytes(8).toString("hex")}`;
+    const svm = getNetwork(requirements.network).family === "svm";
+    const payment: DevPayment = {
+      txnId,
+      platform: order.platform,
+      batch: order.batch,
+      receivers: order.receivers.map((receiver, index) => ({
+        ...receiver,
+        status: this.failsReceiver(receiver.receiver) ? "failed" : "paid",
+        receipt: `${this.url}/receipts/${txnId}${order.batch ? `-${index + 1}` : ""}`,
+      })),
+      network: requirements.network,
+      payer,
+      transaction: svm
+        ? bs58.encode(randomBytes(64))
+        : `0x${randomBytes(32).toString("hex")}`,
+      charged: BigInt(requirements.amount),
+      idempotencyKey,
+      timestamp: new Date().toISOString(),
+    };
+    this.payments.set(txnId, payment);
+    return payment;
+  }
+
+  /**
+   * Whether a receiver is configured to fail
+   *
+   * @param receiver - The receiver
+   * @returns True when payments to it fail
+   */
+  private failsReceiver(receiver: string): boolean {
+    return (this.options.faults?.receivers ?? []).some(
+      (name) => name.toLowerCase() === receiver.toLowerCase(),
+    );
+  }
+
+  /**
+   * Decide whether to inject a failure into the current paid request
+   *
+   * @returns The failure, if one is due
+   */
+  private nextFault(): FaultMode | undefined {
+    const faults = this.options.faults;
+    if (faults?.mode === undefined) {
+      return undefined;
+    }
+    if (faults.count !== undefined && this.faultsInjected >= faults.count) {
+      return undefined;
+    }
+    if (faults.rate !== undefined && Math.random() >= faults.rate) {
+      return undefined;
+    }
+    this.faultsInjected++;
+    return faults.mode;
+  }
+
+  /**
+   * Send a JSON response
+   *
+   * @param res - The response
+   * @param status - HTTP status
+   * @param body - JSON body
+   * @param headers - Extra headers
+   */
+  private send(
+    res: ServerResponse,
+    status: number,
+    body: unknown,
+    headers: Record<string, string> = {},
+  ): void {
+    if (res.headersSent) {
+      return;
+    }
+    res.writeHead(status, {
+      "Content-Type": "application/json",
+      "Access-Control-Expose-Headers": "PAYMENT-REQUIRED, PAYMENT-RESPONSE",
+      ...headers,
+    });
+    res.end(
+      JSON.stringify(body, (_key, value) =>
+        typeof value === "bigint" ? value.toString() : value,
+      ),
+    );
+  }
+}
@@ -0,0 +1,191 @@
+import minimist from "minimist";
+import { formatAmount, sumAmounts } from "./amount.js";
+import { normalizePlatform } from "./platforms.js";
+import {
+  readLedger,
+  filterLedger,
+  ledgerPath,
+  ledgerRecord,
+  entryExplorerUrl,
+  LedgerFilter,
+  LedgerStatus,
+} from "./ledger.js";
+import {
+  print,
+  printError,
+  setOutputFormat,
+  getOutputFormat,
+  emitResult,
+  emitFailure,
+} from "./output.js";
+import { applyProfile } from "./profiles.js";
+
+/**
+ * Print usage for the history command
+ *
+ * @param log - Output function (stdout for --help, stderr for errors)
+ */
+function printUsage(log: (message: string) => void): void {
+  log("Usage: snackmoney history [filters]");
+  log("\nFilters:");
+  log(
+    "  --platform <platform>   Only payments to this platform (x, farcaster, ...)",
+  );
+  log("  --receiver <name>       Only payments to this receiver");
+  log(
+    "  --network <network>     Only payments on this network (base, base-sepolia, solana, ...)",
+  );
+  log("  --status <status>       success, failed or unknown");
+  log("  --schedule <name>       Only payments made by this scheduled job");
+  log(
+    "  --from <date>           Only payments on or after this date (ISO 8601)",
+  );
+  log(
+    "  --to <date>             Only payments on or before this date (ISO 8601)",
+  );
+  log("  --limit <n>             Show only the most recent n payments");
+  log("\nOptions:");
+  log("  --output <format>       text (default), plain, table, json or ndjson");
+  log(
+    "  --profile <name>        Use a named profile's output format (see snackmoney config)",
+  );
+  log("\nExamples:");
+  log("  snackmoney history");
+  log("  snackmoney history --platform farcaster --receiver toly");
+  log("  snackmoney history --from 2025-01-01 --to 2025-01-31 --network base");
+}
+
+/**
+ * Parse a --from/--to date; a bare --to date covers that whole day
+ *
+ * @param value - The date as given on the command line
+ * @param endOfDay - Whether a date without time should mean the end of the day
+ * @returns The parsed date
+ */
+function parseDate(value: string, endOfDay: boolean): Date {
+  const dateOnly = /^\d{4}-\d{2}-\d{2}$/.test(value);
+  const date = new Date(
+    dateOnly && endOfDay ? `${value}T23:59:59.999Z` : value,
+  );
+  if (isNaN(date.getTime())) {
+    throw new Error(`Invalid date: ${value}. Use ISO 8601, e.g. 2025-01-31`);
+  }
+  return date;
+}
+
+const args = minimist(process.argv.slice(2), {
+  string: [
+    "platform",
+    "receiver",
+    "network",
+    "status",
+    "schedule",
+    "from",
+    "to",
+    "limit",
+    "output",
+    "profile",
+  ],
+  alias: { o: "output" },
+});
+
+if (args.help || args.h) {
+  printUsage(console.log);
+  process.exit(0);
+}
+
+let filter: LedgerFilter;
+let limit: number | undefined;
+
+try {
+  setOutputFormat(args.output || applyProfile(args.profile).output);
+  if (args.status && !["success", "failed", "unknown"].includes(args.status)) {
+    throw new Error(
+      `Invalid status: ${args.status}. Use success, failed or unknown`,
+    );
+  }
+  filter = {
+    platform: args.platform ? normalizePlatform(args.platform) : undefined,
+    receiver: args.receiver?.replace(/^@/, ""),
+    network: args.network,
+    status: args.status as LedgerStatus | undefined,
+    schedule: args.schedule,
+    from: args.from ? parseDate(args.from, false) : undefined,
+    to: args.to ? parseDate(args.to, true) : undefined,
+  };
+  if (args.limit !== undefined) {
+    limit = Number(args.limit);
+    if (!Number.isInteger(limit) || limit < 1) {
+      throw new Error(
+        `Invalid limit: ${args.limit}. Use a whole number above 0`,
+      );
+    }
+  }
+} catch (error: unknown) {
+  printError(`❌ ${(error as Error).message}`);
+  printError("");
+  printUsage(console.error);
+  emitFailure("history", error);
+  process.exit(1);
+}
+
+let entries = filterLedger(readLedger(), filter);
+if (limit) {
+  entries = entries.slice(-limit);
+}
+
+const paid = entries.filter((entry) => entry.status === "success");
+const totalPaid = sumAmounts(paid.map((entry) => BigInt(entry.amount)));
+
+if (getOutputFormat() !== "text" && getOutputFormat() !== "plain") {
+  emitResult({
+    command: "history",
+    count: entries.length,
+    totalPaid: formatAmount(totalPaid),
+    payments: entries.map(ledgerRecord),
+  });
+  process.exit(0);
+}
+
+if (entries.length === 0) {
+  print(`No payments found in ${ledgerPath()}`);
+  process.exit(0);
+}
+
+print(`📜 Payment history (${entries.length} payments)\n`);
+
+for (const entry of entries) {
+  const when = entry.timestamp.replace("T", " ").slice(0, 16);
+  const icon = { success: "✅", failed: "❌", unknown: "⚠️ " }[entry.status];
+  print(
+    `${icon} ${when}  ${entry.platform}/${entry.receiver}  ${formatAmount(BigInt(entry.amount))} USDC  ${entry.network}  (${entry.schedule ? `${entry.command}, schedule ${entry.schedule}` : entry.command})`,
+  );
+  if (entry.txnId) {
+    print(`   🔗 TXN: ${entry.txnId}`);
+  }
+  if (entry.transaction) {
+    print(`   ⛓️  Transaction: ${entry.transaction}`);
+  }
+  const link = entryExplorerUrl(entry);
+  if (link) {
+    print(`   🔍 Explorer: ${link}`);
+  }
+  if (entry.receipt) {
+    print(`   📄 Receipt: ${entry.receipt}`);
+  }
+  if (entry.description) {
+    print(`   📝 Memo: ${entry.description}`);
+  }
+  if (entry.campaign || entry.reference) {
+    print(
+      `   🏷️  ${[entry.campaign && `Campaign: ${entry.campaign}`, entry.reference && `Reference: ${entry.reference}`].filter(Boolean).join(" | ")}`,
+    );
+  }
+  if (entry.error) {
+    print(`   ⚠️  ${entry.error}`);
+  }
+}
+
+print(
+  `\n💰 Total paid: ${formatAmount(totalPaid)} USDC across ${paid.length} successful payments`,
+);
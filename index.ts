@@ -0,0 +1,168 @@
+/**
+ * Snack Money SDK
+ * Programmatic access to the payments the snackmoney CLI makes
+ */
+
+export {
+  SnackMoneyClient,
+  PaymentError,
+  resolveNetwork,
+  receiverOutcomes,
+  DEFAULT_BASE_URL,
+  DEFAULT_TIMEOUT_MS,
+} from "./client.js";
+export type {
+  SnackMoneyClientOptions,
+  SnackMoneyClientEvents,
+  PaymentNetwork,
+  PaymentRequest,
+  PaymentResult,
+  BatchReceiver,
+  BatchMetadata,
+  BatchPaymentRequest,
+  BatchPaymentResult,
+  ReceiverReceipt,
+  PaymentQuote,
+  SettleResponse,
+  RequestRetry,
+  ReceiverOutcome,
+} from "./client.js";
+export {
+  PLATFORMS,
+  normalizePlatform,
+  parsePaymentTarget,
+  validateReceiver,
+} from "./platforms.js";
+export type { Platform, PaymentTarget } from "./platforms.js";
+export {
+  parseAmount,
+  formatAmount,
+  sumAmounts,
+  USDC_DECIMALS,
+} from "./amount.js";
+export {
+  attachLedger,
+  readLedger,
+  filterLedger,
+  ledgerPath,
+} from "./ledger.js";
+export type { LedgerEntry, LedgerFilter, LedgerStatus } from "./ledger.js";
+export {
+  loadPolicy,
+  parsePolicy,
+  evaluatePolicy,
+  policyPath,
+} from "./policy.js";
+export type {
+  SpendingPolicy,
+  SpendingLimits,
+  ReceiverRules,
+  PolicyViolation,
+} from "./policy.js";
+export {
+  groupByPlatform,
+  chunkByPlatform,
+  createBatchState,
+  loadBatchState,
+  listBatchStates,
+  unpaidRecipients,
+} from "./batches.js";
+export type {
+  BatchChunk,
+  BatchEntry,
+  BatchState,
+  RecipientState,
+  RecipientStatus,
+} from "./batches.js";
+export {
+  createWallet,
+  importWallet,
+  loadWallet,
+  listWallets,
+  removeWallet,
+  decryptWallet,
+  walletsDir,
+} from "./keystore.js";
+export type { WalletFile, WalletCrypto } from "./keystore.js";
+export {
+  getNetwork,
+  findNetwork,
+  listNetworks,
+  networksPath,
+  explorerUrl,
+} from "./networks.js";
+export type { NetworkConfig } from "./networks.js";
+export { fetchBalance, fetchTransaction, rpcUrl, usdcAddress } from "./rpc.js";
+export type { WalletBalance, TokenTransfer, TransactionLookup } from "./rpc.js";
+export {
+  verifyPayment,
+  findPaymentEntries,
+  expectedTransfer,
+  checkTransfer,
+} from "./verification.js";
+export type {
+  ExpectedTransfer,
+  TransferCheck,
+  PaymentVerification,
+} from "./verification.js";
+export {
+  DevServer,
+  parseFaultMode,
+  DEFAULT_DEV_SERVER_PORT,
+} from "./emulator.js";
+export type {
+  DevServerOptions,
+  DevServerEvents,
+  DevPayment,
+  DevReceiver,
+  FaultMode,
+  FaultOptions,
+} from "./emulator.js";
+export { checkPaymentPayload } from "./signatures.js";
+export type { PayloadCheck } from "./signatures.js";
+export {
+  resolveProfile,
+  readConfig,
+  writeConfig,
+  configPath,
+  projectConfigPath,
+} from "./profiles.js";
+export type { Profile, ConfigFile } from "./profiles.js";
+export {
+  fetchResources,
+  filterResources,
+  facilitatorUrl,
+} from "./discovery.js";
+export type { DiscoveredResource, DiscoveryFilter } from "./discovery.js";
+export {
+  addContact,
+  removeContact,
+  getContact,
+  getGroup,
+  listContacts,
+  resolvePaymentTarget,
+  contactsPath,
+} from "./addressbook.js";
+export type { Contact } from "./addressbook.js";
+export {
+  addSchedule,
+  removeSchedule,
+  listSchedules,
+  runDueSchedules,
+  schedulesPath,
+} from "./schedules.js";
+export type { Schedule, ScheduleRun, CatchUpRule } from "./schedules.js";
+export { parseCron, nextCronRun, parseInterval } from "./cron.js";
+export type { CronExpression } from "./cron.js";
+export { parseRate, runThrottled } from "./throttle.js";
+export type { ThrottleOptions } from "./throttle.js";
+export {
+  isRetryable,
+  paymentWasSent,
+  backoffDelay,
+  DEFAULT_RETRY_OPTIONS,
+  IDEMPOTENCY_HEADER,
+} from "./retry.js";
+export type { RetryOptions } from "./retry.js";
+export { writeReport, formatReport, reportRows } from "./report.js";
+export type { ReportRow, ReportFormat } from "./report.js";
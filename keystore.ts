@@ -0,0 +1,556 @@
+/**
+ * Encrypted local wallet keystore
+ *
+ * Each wallet is stored as ~/.snackmoney/wallets/<name>.json with its private
+ * key encrypted under a password (scrypt key derivation, AES-256-GCM). The
+ * name, network and address stay readable so wallets can be listed and
+ * selected without the password.
+ */
+
+import {
+  existsSync,
+  mkdirSync,
+  readdirSync,
+  readFileSync,
+  unlinkSync,
+  writeFileSync,
+} from "fs";
+import { join } from "path";
+import {
+  createCipheriv,
+  createDecipheriv,
+  generateKeyPairSync,
+  randomBytes,
+  scrypt,
+  ScryptOptions,
+} from "crypto";
+import { Hex } from "viem";
+import { generatePrivateKey, privateKeyToAccount } from "viem/accounts";
+import { createKeyPairSignerFromBytes } from "@solana/kit";
+import bs58 from "bs58";
+import { PaymentNetwork, SnackMoneyClientOptions } from "./client.js";
+import { stateDir } from "./ledger.js";
+import { getNetwork } from "./networks.js";
+
+/** scrypt cost parameters for new wallets (about 32 MB of memory) */
+const SCRYPT_PARAMS = { n: 32768, r: 8, p: 1 };
+
+const MIN_PASSWORD_LENGTH = 8;
+
+export interface WalletCrypto {
+  kdf: "scrypt";
+  kdfparams: { n: number; r: number; p: number; salt: string };
+  cipher: "aes-256-gcm";
+  iv: string;
+  tag: string;
+  ciphertext: string;
+}
+
+export interface WalletFile {
+  version: 1;
+  name: string;
+  /** Network family the key signs for */
+  network: PaymentNetwork;
+  address: string;
+  createdAt: string;
+  crypto: WalletCrypto;
+}
+
+/** A wallet with its decrypted key, ready to pass to SnackMoneyClient */
+export interface UnlockedWallet {
+  wallet: WalletFile;
+  keys: Pick<SnackMoneyClientOptions, "evmPrivateKey" | "svmPrivateKey">;
+}
+
+/**
+ * Directory holding wallet files
+ *
+ * @returns The wallets directory path
+ */
+export function walletsDir(): string {
+  return join(stateDir(), "wallets");
+}
+
+/**
+ * Path of a wallet file
+ *
+ * @param name - The wallet name
+ * @returns The wallet file path
+ */
+function walletPath(name: string): string {
+  if (!/^[\w.-]+$/.test(name)) {
+    throw new Error(
+      `Invalid wallet name: ${name}. Use letters, digits, ".", "_" and "-"`,
+    );
+  }
+  return join(walletsDir(), `${name}.json`);
+}
+
+/**
+ * Human-readable name of a wallet's network
+ *
+ * @param network - The wallet network
+ * @returns "Base" or "Solana"
+ */
+export function walletNetworkLabel(network: PaymentNetwork): string {
+  return network === "solana" ? "Solana" : "Base";
+}
+
+/**
+ * Key type of a --network value: Base keys sign on every EVM network, Solana
+ * keys on every Solana cluster
+ *
+ * @param value - A network id, e.g. "base-sepolia"
+ * @returns The key type
+ */
+export function parseWalletNetwork(value: string): PaymentNetwork {
+  return getNetwork(value).family === "svm" ? "solana" : "base";
+}
+
+/**
+ * Guess the network of a private key from its encoding
+ *
+ * @param privateKey - 0x-prefixed hex (Base) or base58 (Solana)
+ * @returns The network
+ */
+export function networkFromPrivateKey(privateKey: string): PaymentNetwork {
+  return /^(0x)?[0-9a-fA-F]{64}$/.test(privateKey) ? "base" : "solana";
+}
+
+/**
+ * Validate a private key and derive its address
+ *
+ * @param network - The network the key signs for
+ * @param privateKey - The key as given by the user
+ * @returns The normalized key and its address
+ */
+async function deriveAddress(
+  network: PaymentNetwork,
+  privateKey: string,
+): Promise<{ privateKey: string; address: string }> {
+  if (network === "base") {
+    const key = privateKey.startsWith("0x") ? privateKey : `0x${privateKey}`;
+    if (!/^0x[0-9a-fA-F]{64}$/.test(key)) {
+      throw new Error("Invalid Base private key: expected 32 bytes of hex");
+    }
+    return {
+      privateKey: key,
+      address: privateKeyToAccount(key as Hex).address,
+    };
+  }
+
+  let bytes: Uint8Array;
+  try {
+    bytes = bs58.decode(privateKey);
+  } catch {
+    throw new Error("Invalid Solana private key: expected base58");
+  }
+  if (bytes.length !== 64) {
+    throw new Error(
+      "Invalid Solana private key: expected a 64-byte secret key (base58)",
+    );
+  }
+  try {
+    const signer = await createKeyPairSignerFromBytes(bytes);
+    return { privateKey, address: signer.address };
+  } catch {
+    throw new Error(
+      "Invalid Solana private key: the public key does not match the secret",
+    );
+  }
+}
+
+/**
+ * Generate a new private key
+ *
+ * @param network - The network the key signs for
+ * @returns 0x-prefixed hex for Base, a base58 64-byte secret key for Solana
+ */
+function newPrivateKey(network: PaymentNetwork): string {
+  if (network === "base") {
+    return generatePrivateKey();
+  }
+  const { privateKey } = generateKeyPairSync("ed25519");
+  const jwk = privateKey.export({ format: "jwk" });
+  return bs58.encode(
+    Buffer.concat([
+      Buffer.from(jwk.d!, "base64url"),
+      Buffer.from(jwk.x!, "base64url"),
+    ]),
+  );
+}
+
+/**
+ * Derive the encryption key from a password
+ *
+ * @param password - The wallet password
+ * @param params - scrypt parameters and hex salt
+ * @returns A 32-byte key
+ */
+function deriveKey(
+  password: string,
+  params: WalletCrypto["kdfparams"],
+): Promise<Buffer> {
+  const options: ScryptOptions = {
+    N: params.n,
+    r: params.r,
+    p: params.p,
+    maxmem: 256 * params.n * params.r,
+  };
+  return new Promise((resolve, reject) => {
+    scrypt(
+      password.normalize("NFKC"),
+      Buffer.from(params.salt, "hex"),
+      32,
+      options,
+      (error, key) => (error ? reject(error) : resolve(key)),
+    );
+  });
+}
+
+/**
+ * Encrypt a private key
+ *
+ * @param privateKey - The key
+ * @param password - The wallet password
+ * @param address - The wallet address, authenticated alongside the key
+ * @returns The encrypted key and its parameters
+ */
+async function encryptKey(
+  privateKey: string,
+  password: string,
+  address: string,
+): Promise<WalletCrypto> {
+  const kdfparams = {
+    ...SCRYPT_PARAMS,
+    salt: randomBytes(32).toString("hex"),
+  };
+  const iv = randomBytes(12);
+  const cipher = createCipheriv(
+    "aes-256-gcm",
+    await deriveKey(password, kdfparams),
+    iv,
+  );
+  cipher.setAAD(Buffer.from(address));
+  const ciphertext = Buffer.concat([
+    cipher.update(privateKey, "utf-8"),
+    cipher.final(),
+  ]);
+  return {
+    kdf: "scrypt",
+    kdfparams,
+    cipher: "aes-256-gcm",
+    iv: iv.toString("hex"),
+    tag: cipher.getAuthTag().toString("hex"),
+    ciphertext: ciphertext.toString("hex"),
+  };
+}
+
+/**
+ * Decrypt a wallet's private key
+ *
+ * @param wallet - The wallet
+ * @param password - The wallet password
+ * @returns The private key
+ */
+export async function decryptWallet(
+  wallet: WalletFile,
+  password: string,
+): Promise<string> {
+  const { crypto } = wallet;
+  if (crypto.kdf !== "scrypt" || crypto.cipher !== "aes-256-gcm") {
+    throw new Error(`Unsupported encryption in wallet ${wallet.name}`);
+  }
+  const decipher = createDecipheriv(
+    "aes-256-gcm",
+    await deriveKey(password, crypto.kdfparams),
+    Buffer.from(crypto.iv, "hex"),
+  );
+  decipher.setAAD(Buffer.from(wallet.address));
+  decipher.setAuthTag(Buffer.from(crypto.tag, "hex"));
+  try {
+    return Buffer.concat([
+      decipher.update(Buffer.from(crypto.ciphertext, "hex")),
+      decipher.final(),
+    ]).toString("utf-8");
+  } catch {
+    throw new Error(`Wrong password for wallet ${wallet.name}`);
+  }
+}
+
+/**
+ * Encrypt and save a private key as a new wallet
+ *
+ * @param name - The wallet name
+ * @param network - The network the key signs for
+ * @param privateKey - The key
+ * @param password - Password to encrypt the key with
+ * @returns The saved wallet
+ */
+export async function importWallet(
+  name: string,
+  network: PaymentNetwork,
+  privateKey: string,
+  password: string,
+): Promise<WalletFile> {
+  const path = walletPath(name);
+  if (existsSync(path)) {
+    throw new Error(`A wallet named ${name} already exists`);
+  }
+  if (password.length < MIN_PASSWORD_LENGTH) {
+    throw new Error(
+      `The password must be at least ${MIN_PASSWORD_LENGTH} characters`,
+    );
+  }
+
+  const key = await deriveAddress(network, privateKey.trim());
+  const wallet: WalletFile = {
+    version: 1,
+    name,
+    network,
+    address: key.address,
+    createdAt: new Date().toISOString(),
+    crypto: await encryptKey(key.privateKey, password, key.address),
+  };
+
+  mkdirSync(walletsDir(), { recursive: true, mode: 0o700 });
+  // "wx" refuses to overwrite a wallet created in the meantime
+  writeFileSync(path, JSON.stringify(wallet, null, 2), {
+    mode: 0o600,
+    flag: "wx",
+  });
+  return wallet;
+}
+
+/**
+ * Generate a key and save it as a new wallet
+ *
+ * @param name - The wallet name
+ * @param network - The network the key signs for
+ * @param password - Password to encrypt the key with
+ * @returns The saved wallet
+ */
+export function createWallet(
+  name: string,
+  network: PaymentNetwork,
+  password: string,
+): Promise<WalletFile> {
+  return importWallet(name, network, newPrivateKey(network), password);
+}
+
+/**
+ * Load a wallet
+ *
+ * @param name - The wallet name
+ * @returns The wallet, still encrypted
+ */
+export function loadWallet(name: string): WalletFile {
+  const path = walletPath(name);
+  if (!existsSync(path)) {
+    throw new Error(`No wallet named ${name}`);
+  }
+  return JSON.parse(readFileSync(path, "utf-8"));
+}
+
+/**
+ * Load every saved wallet, sorted by name
+ *
+ * @returns The wallets
+ */
+export function listWallets(): WalletFile[] {
+  if (!existsSync(walletsDir())) {
+    return [];
+  }
+  return readdirSync(walletsDir())
+    .filter((name) => name.endsWith(".json"))
+    .map((name) => loadWallet(name.slice(0, -".json".length)))
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * Delete a wallet
+ *
+ * @param name - The wallet name
+ */
+export function removeWallet(name: string): void {
+  loadWallet(name);
+  unlinkSync(walletPath(name));
+}
+
+/**
+ * Read a line from the terminal without echoing it
+ *
+ * @param prompt - Text shown before the input
+ * @returns The line
+ */
+function readHidden(prompt: string): Promise<string> {
+  const stdin = process.stdin;
+  return new Promise((resolve, reject) => {
+    let value = "";
+    const finish = () => {
+      stdin.off("data", onData);
+      stdin.setRawMode(false);
+      stdin.pause();
+      process.stderr.write("\n");
+    };
+    const onData = (chunk: Buffer) => {
+      for (const char of chunk.toString("utf-8")) {
+        if (char === "\r" || char === "\n") {
+          finish();
+          resolve(value);
+          return;
+        }
+        if (char === "\u0003" || char === "\u0004") {
+          finish();
+          reject(new Error("Cancelled"));
+          return;
+        }
+        if (char === "\u007f" || char === "\b") {
+          value = value.slice(0, -1);
+        } else {
+          value += char;
+        }
+      }
+    };
+
+    // Prompt on stderr so stdout stays clean for --output json
+    process.stderr.write(prompt);
+    stdin.setRawMode(true);
+    stdin.resume();
+    stdin.on("data", onData);
+  });
+}
+
+/**
+ * Ask for a secret on the terminal
+ *
+ * @param prompt - Text shown before the input
+ * @param what - What is asked for, for the error without a terminal
+ * @returns The secret
+ */
+export function readSecret(prompt: string, what: string): Promise<string> {
+  if (!process.stdin.isTTY) {
+    throw new Error(`Cannot ask for the ${what}: not running in a terminal`);
+  }
+  return readHidden(prompt);
+}
+
+/**
+ * Get the password of an existing wallet from $SNACKMONEY_WALLET_PASSWORD or
+ * the terminal
+ *
+ * @param name - The wallet name
+ * @returns The password
+ */
+export async function readPassword(name: string): Promise<string> {
+  if (process.env.SNACKMONEY_WALLET_PASSWORD) {
+    return process.env.SNACKMONEY_WALLET_PASSWORD;
+  }
+  if (!process.stdin.isTTY) {
+    throw new Error(
+      `Not running in a terminal: set SNACKMONEY_WALLET_PASSWORD to unlock wallet ${name}`,
+    );
+  }
+  return readHidden(`🔑 Password for wallet ${name}: `);
+}
+
+/**
+ * Choose a password for a new wallet from $SNACKMONEY_WALLET_PASSWORD or the
+ * terminal, asking twice
+ *
+ * @param name - The wallet name
+ * @returns The password
+ */
+export async function readNewPassword(name: string): Promise<string> {
+  if (process.env.SNACKMONEY_WALLET_PASSWORD) {
+    return process.env.SNACKMONEY_WALLET_PASSWORD;
+  }
+  if (!process.stdin.isTTY) {
+    throw new Error(
+      `Not running in a terminal: set SNACKMONEY_WALLET_PASSWORD to encrypt wallet ${name}`,
+    );
+  }
+  const password = await readHidden(`🔑 New password for wallet ${name}: `);
+  if (password.length < MIN_PASSWORD_LENGTH) {
+    throw new Error(
+      `The password must be at least ${MIN_PASSWORD_LENGTH} characters`,
+    );
+  }
+  if ((await readHidden("🔑 Repeat the password: ")) !== password) {
+    throw new Error("The passwords do not match");
+  }
+  return password;
+}
+
+/**
+ * Choose the wallet a payment command signs with
+ *
+ * An explicit --wallet always wins. Otherwise EVM_PRIVATE_KEY and
+ * SVM_PRIVATE_KEY override the keystore, then $SNACKMONEY_WALLET names the
+ * wallet, and a single saved wallet (for the requested network) is used.
+ *
+ * @param name - The --wallet value
+ * @param network - The --network value, if any
+ * @returns The wallet, or undefined to sign with the environment keys
+ */
+export function selectWallet(
+  name?: string,
+  network?: string,
+): WalletFile | undefined {
+  const family = network ? parseWalletNetwork(network) : undefined;
+  let wallet: WalletFile | undefined;
+
+  if (name) {
+    wallet = loadWallet(name);
+  } else if (process.env.EVM_PRIVATE_KEY || process.env.SVM_PRIVATE_KEY) {
+    return undefined;
+  } else if (process.env.SNACKMONEY_WALLET) {
+    wallet = loadWallet(process.env.SNACKMONEY_WALLET);
+  } else {
+    const wallets = listWallets().filter(
+      (w) => !family || w.network === family,
+    );
+    if (wallets.length > 1) {
+      throw new Error(
+        `Several wallets found (${wallets.map((w) => w.name).join(", ")})\n   Choose one with --wallet <name> or SNACKMONEY_WALLET`,
+      );
+    }
+    wallet = wallets[0];
+  }
+
+  if (wallet && family && wallet.network !== family) {
+    throw new Error(
+      `Wallet ${wallet.name} is a ${walletNetworkLabel(wallet.network)} wallet and cannot pay on ${network}`,
+    );
+  }
+  return wallet;
+}
+
+/**
+ * Select and decrypt the wallet a payment command signs with
+ *
+ * @param name - The --wallet value
+ * @param network - The --network value, if any
+ * @returns The unlocked wallet, or undefined to sign with the environment keys
+ */
+export async function unlockWallet(
+  name?: string,
+  network?: string,
+): Promise<UnlockedWallet | undefined> {
+  const wallet = selectWallet(name, network);
+  if (!wallet) {
+    return undefined;
+  }
+  const privateKey = await decryptWallet(
+    wallet,
+    await readPassword(wallet.name),
+  );
+  // Clear the other network's environment key so it cannot be picked instead
+  return {
+    wallet,
+    keys:
+      wallet.network === "solana"
+        ? { svmPrivateKey: privateKey, evmPrivateKey: undefined }
+        : { evmPrivateKey: privateKey as Hex, svmPrivateKey: undefined },
+  };
+}
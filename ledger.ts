@@ -0,0 +1,382 @@
+/**
+ * Local payment history ledger
+ *
+ * Every payment the CLI makes is appended as one JSON line per receiver to
+ * ~/.snackmoney/history.jsonl (or $SNACKMONEY_HOME/history.jsonl).
+ */
+
+import { appendFileSync, existsSync, mkdirSync, readFileSync } from "fs";
+import { homedir } from "os";
+import { join } from "path";
+import { randomUUID } from "crypto";
+import {
+  SnackMoneyClient,
+  PaymentError,
+  PaymentRequest,
+  PaymentResult,
+  BatchPaymentRequest,
+  BatchPaymentResult,
+  receiverOutcomes,
+} from "./client.js";
+import { Platform } from "./platforms.js";
+import { explorerUrl } from "./networks.js";
+import { printError, paymentRecord, PaymentRecord } from "./output.js";
+
+export type LedgerCommand = "send" | "batch-send" | "ai-agent";
+
+/**
+ * success - the API confirmed the payment
+ * failed  - nothing was settled
+ * unknown - the signed payment was sent but no final answer came back (a
+ *           timeout, a dropped connection or a 5xx), so it may have settled
+ */
+export type LedgerStatus = "success" | "failed" | "unknown";
+
+export interface LedgerEntry {
+  id: string;
+  timestamp: string;
+  command: LedgerCommand;
+  platform: Platform;
+  receiver: string;
+  /** Amount in USDC base units, as a decimal string */
+  amount: string;
+  network: string;
+  status: LedgerStatus;
+  txnId?: string;
+  /** On-chain transaction hash from the payment-response header */
+  transaction?: string;
+  /** Block explorer link for the transaction */
+  explorerUrl?: string;
+  payer?: string;
+  /** Address the payment was made out to in the x402 requirements */
+  payTo?: string;
+  /** Token contract or mint the payment was made in */
+  asset?: string;
+  /** Amount the signed payment charged in base units, fees included */
+  charged?: string;
+  receipt?: string;
+  /** Memo sent with the payment */
+  description?: string;
+  senderUsername?: string;
+  campaign?: string;
+  reference?: string;
+  /** Idempotency key the request was sent with */
+  idempotencyKey?: string;
+  /** Scheduled job that made the payment */
+  schedule?: string;
+  error?: string;
+}
+
+export interface LedgerFilter {
+  platform?: Platform;
+  receiver?: string;
+  network?: string;
+  status?: LedgerStatus;
+  schedule?: string;
+  from?: Date;
+  to?: Date;
+}
+
+/**
+ * Directory holding the CLI's local state
+ *
+ * @returns The state directory path
+ */
+export function stateDir(): string {
+  return process.env.SNACKMONEY_HOME || join(homedir(), ".snackmoney");
+}
+
+/**
+ * Path of the history ledger file
+ *
+ * @returns The ledger path
+ */
+export function ledgerPath(): string {
+  return join(stateDir(), "history.jsonl");
+}
+
+/**
+ * Append entries to the ledger
+ *
+ * @param entries - The entries to record
+ */
+export function appendLedgerEntries(entries: LedgerEntry[]): void {
+  if (entries.length === 0) {
+    return;
+  }
+  mkdirSync(stateDir(), { recursive: true, mode: 0o700 });
+  appendFileSync(
+    ledgerPath(),
+    entries.map((entry) => JSON.stringify(entry) + "\n").join(""),
+    { mode: 0o600 },
+  );
+}
+
+/**
+ * Read every entry in the ledger, skipping lines that cannot be parsed
+ *
+ * @returns The recorded entries, oldest first
+ */
+export function readLedger(): LedgerEntry[] {
+  const path = ledgerPath();
+  if (!existsSync(path)) {
+    return [];
+  }
+
+  const entries: LedgerEntry[] = [];
+  for (const line of readFileSync(path, "utf-8").split("\n")) {
+    if (!line.trim()) {
+      continue;
+    }
+    try {
+      entries.push(JSON.parse(line));
+    } catch {
+      // Ignore partially written lines
+    }
+  }
+  return entries;
+}
+
+/**
+ * Select the entries matching a filter
+ *
+ * @param entries - Ledger entries
+ * @param filter - Criteria every returned entry must match
+ * @returns The matching entries
+ */
+export function filterLedger(
+  entries: LedgerEntry[],
+  filter: LedgerFilter,
+): LedgerEntry[] {
+  return entries.filter((entry) => {
+    const timestamp = new Date(entry.timestamp);
+    return (
+      (!filter.platform || entry.platform === filter.platform) &&
+      (!filter.receiver ||
+        entry.receiver.toLowerCase() === filter.receiver.toLowerCase()) &&
+      (!filter.network ||
+        entry.network.toLowerCase() === filter.network.toLowerCase()) &&
+      (!filter.status || entry.status === filter.status) &&
+      (!filter.schedule || entry.schedule === filter.schedule) &&
+      (!filter.from || timestamp >= filter.from) &&
+      (!filter.to || timestamp <= filter.to)
+    );
+  });
+}
+
+/**
+ * Build a ledger entry with the fields shared by every outcome
+ *
+ * @param command - The command that made the payment
+ * @param network - The settlement network
+ * @param platform - The receiver's platform
+ * @param receiver - The receiver
+ * @param amount - Amount in base units
+ * @returns The partial entry
+ */
+function baseEntry(
+  command: LedgerCommand,
+  network: string,
+  platform: Platform,
+  receiver: string,
+  amount: bigint,
+): Omit<LedgerEntry, "status"> {
+  return {
+    id: randomUUID(),
+    timestamp: new Date().toISOString(),
+    command,
+    platform,
+    receiver,
+    amount: amount.toString(),
+    network,
+    // Set by the schedule runner for the payments of a scheduled job
+    schedule: process.env.SNACKMONEY_SCHEDULE || undefined,
+  };
+}
+
+/**
+ * Ledger fields recording what a payment was signed for
+ *
+ * @param result - The payment or batch payment result
+ * @returns payTo, asset and charged, when the requirements are known
+ */
+function requirementFields(
+  result: PaymentResult | BatchPaymentResult,
+): Pick<LedgerEntry, "payTo" | "asset" | "charged"> {
+  if (!result.requirements) {
+    return {};
+  }
+  return {
+    payTo: result.requirements.payTo,
+    asset: result.requirements.asset,
+    charged: result.requirements.amount,
+  };
+}
+
+/**
+ * Ledger entry for a settled single payment
+ *
+ * @param command - The command that made the payment
+ * @param network - The settlement network
+ * @param result - The payment result
+ * @returns The entry
+ */
+export function entryFromPayment(
+  command: LedgerCommand,
+  network: string,
+  result: PaymentResult,
+): LedgerEntry {
+  return {
+    ...baseEntry(
+      command,
+      network,
+      result.target.platform,
+      result.target.receiver,
+      result.amount,
+    ),
+    status: "success",
+    txnId: result.txnId,
+    transaction: result.paymentResponse?.transaction,
+    explorerUrl: result.explorerUrl,
+    payer: result.paymentResponse?.payer,
+    ...requirementFields(result),
+    receipt: result.receipt,
+    description: result.description,
+    idempotencyKey: result.idempotencyKey,
+  };
+}
+
+/**
+ * Ledger entries (one per receiver) for a settled batch payment
+ *
+ * @param command - The command that made the payment
+ * @param network - The settlement network
+ * @param result - The batch payment result
+ * @returns The entries
+ */
+export function entriesFromBatch(
+  command: LedgerCommand,
+  network: string,
+  result: BatchPaymentResult,
+): LedgerEntry[] {
+  return receiverOutcomes(result).map((outcome) => {
+    const { receiver, amount, description } = outcome;
+    return {
+      ...baseEntry(command, network, result.platform, receiver, amount),
+      status: outcome.paid ? "success" : "failed",
+      txnId: result.txnId,
+      transaction: result.paymentResponse?.transaction,
+      explorerUrl: result.explorerUrl,
+      payer: result.paymentResponse?.payer,
+      ...requirementFields(result),
+      receipt: outcome.receipt,
+      description,
+      senderUsername: result.senderUsername,
+      campaign: result.campaign,
+      reference: result.reference,
+      idempotencyKey: result.idempotencyKey,
+      error: outcome.error,
+    };
+  });
+}
+
+/**
+ * Explorer link for a ledger entry; entries written before links were
+ * recorded get one built from their network
+ *
+ * @param entry - The ledger entry
+ * @returns The transaction URL, if any
+ */
+export function entryExplorerUrl(entry: LedgerEntry): string | undefined {
+  if (entry.explorerUrl || !entry.transaction) {
+    return entry.explorerUrl;
+  }
+  return explorerUrl(entry.network, entry.transaction);
+}
+
+/**
+ * Output record for a ledger entry
+ *
+ * @param entry - The ledger entry
+ * @returns The payment record
+ */
+export function ledgerRecord(entry: LedgerEntry): PaymentRecord {
+  return paymentRecord({
+    platform: entry.platform,
+    receiver: entry.receiver,
+    amount: BigInt(entry.amount),
+    status: entry.status,
+    network: entry.network,
+    timestamp: entry.timestamp,
+    txnId: entry.txnId,
+    transaction: entry.transaction,
+    explorerUrl: entryExplorerUrl(entry),
+    receipt: entry.receipt,
+    description: entry.description,
+    schedule: entry.schedule,
+    error: entry.error,
+  });
+}
+
+/**
+ * Record every payment a client makes in the local ledger
+ *
+ * Ledger write failures are reported but never fail the payment itself.
+ *
+ * @param client - The client to follow
+ * @param command - The command making the payments
+ */
+export function attachLedger(
+  client: SnackMoneyClient,
+  command: LedgerCommand,
+): void {
+  const record = (build: () => LedgerEntry[]) => {
+    try {
+      appendLedgerEntries(build());
+    } catch (error: unknown) {
+      printError(
+        `⚠️  Could not write payment history: ${(error as Error).message}`,
+      );
+    }
+  };
+  const failure = (
+    error: PaymentError,
+    platform: Platform,
+    receiver: string,
+    amount: bigint,
+  ): LedgerEntry => ({
+    ...baseEntry(command, client.settlementNetwork, platform, receiver, amount),
+    status: error.outcomeUnknown ? "unknown" : "failed",
+    error: error.message,
+  });
+
+  client.on("send:success", (result: PaymentResult) =>
+    record(() => [entryFromPayment(command, client.settlementNetwork, result)]),
+  );
+  client.on("send:failure", (error: PaymentError, request: PaymentRequest) =>
+    record(() => [
+      {
+        ...failure(error, request.platform, request.receiver, request.amount),
+        description: request.description,
+        idempotencyKey: request.idempotencyKey,
+      },
+    ]),
+  );
+  client.on("batch:success", (result: BatchPaymentResult) =>
+    record(() => entriesFromBatch(command, client.settlementNetwork, result)),
+  );
+  client.on(
+    "batch:failure",
+    (error: PaymentError, request: BatchPaymentRequest) =>
+      record(() =>
+        request.receivers.map(({ receiver, amount, description }) => ({
+          ...failure(error, request.platform, receiver, amount),
+          description,
+          senderUsername: request.senderUsername,
+          campaign: request.campaign,
+          reference: request.reference,
+          idempotencyKey: request.idempotencyKey,
+        })),
+      ),
+  );
+}
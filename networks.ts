@@ -0,0 +1,234 @@
+/**
+ * Network registry
+ *
+ * Every network the CLI can pay on, with what is needed to sign for it, read
+ * balances and link to transactions. Custom networks (or overrides of the
+ * built-in ones, e.g. a private RPC endpoint) go in
+ * ~/.snackmoney/networks.json, or $SNACKMONEY_NETWORKS:
+ *
+ * {
+ *   "anvil": {
+ *     "name": "Local Anvil",
+ *     "family": "evm",
+ *     "caip2": "eip155:31337",
+ *     "usdc": "0x5FbDB2315678afecb367f032d93F642f64180aa3",
+ *     "rpcUrl": "http://127.0.0.1:8545"
+ *   },
+ *   "base": { "rpcUrl": "https://base-mainnet.example.com" }
+ * }
+ */
+
+import { existsSync, readFileSync } from "fs";
+import { join } from "path";
+import {
+  DEVNET_RPC_URL,
+  MAINNET_RPC_URL,
+  SOLANA_DEVNET_CAIP2,
+  SOLANA_MAINNET_CAIP2,
+  USDC_DEVNET_ADDRESS,
+  USDC_MAINNET_ADDRESS,
+} from "@x402/svm";
+import { stateDir } from "./ledger.js";
+
+export interface NetworkConfig {
+  /** Name used with --network and stored in the ledger, e.g. "base-sepolia" */
+  id: string;
+  /** Human-readable name */
+  name: string;
+  /** Signer type: "evm" uses EVM_PRIVATE_KEY, "svm" uses SVM_PRIVATE_KEY */
+  family: "evm" | "svm";
+  /** CAIP-2 chain id used in x402 payment requirements */
+  caip2: string;
+  /** USDC token contract (EVM) or mint (Solana) */
+  usdc: string;
+  /** JSON-RPC endpoint for balance lookups */
+  rpcUrl: string;
+  /** Transaction URL, with {tx} standing for the transaction hash */
+  explorer?: string;
+  /** Whether payments move real funds */
+  mainnet: boolean;
+}
+
+/**
+ * The built-in networks; BASE_RPC_URL and SOLANA_RPC_URL override their RPC
+ * endpoints
+ *
+ * @returns The networks by id
+ */
+function builtinNetworks(): Record<string, NetworkConfig> {
+  const baseRpc = process.env.BASE_RPC_URL;
+  const solanaRpc = process.env.SOLANA_RPC_URL;
+  return {
+    base: {
+      id: "base",
+      name: "Base",
+      family: "evm",
+      caip2: "eip155:8453",
+      usdc: "0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913",
+      rpcUrl: baseRpc || "https://mainnet.base.org",
+      explorer: "https://basescan.org/tx/{tx}",
+      mainnet: true,
+    },
+    "base-sepolia": {
+      id: "base-sepolia",
+      name: "Base Sepolia",
+      family: "evm",
+      caip2: "eip155:84532",
+      usdc: "0x036CbD53842c5426634e7929541eC2318f3dCF7e",
+      rpcUrl: baseRpc || "https://sepolia.base.org",
+      explorer: "https://sepolia.basescan.org/tx/{tx}",
+      mainnet: false,
+    },
+    solana: {
+      id: "solana",
+      name: "Solana Mainnet",
+      family: "svm",
+      caip2: SOLANA_MAINNET_CAIP2,
+      usdc: USDC_MAINNET_ADDRESS,
+      rpcUrl: solanaRpc || MAINNET_RPC_URL,
+      explorer: "https://solscan.io/tx/{tx}",
+      mainnet: true,
+    },
+    "solana-devnet": {
+      id: "solana-devnet",
+      name: "Solana Devnet",
+      family: "svm",
+      caip2: SOLANA_DEVNET_CAIP2,
+      usdc: USDC_DEVNET_ADDRESS,
+      rpcUrl: solanaRpc || DEVNET_RPC_URL,
+      explorer: "https://solscan.io/tx/{tx}?cluster=devnet",
+      mainnet: false,
+    },
+  };
+}
+
+/**
+ * Path of the custom networks file
+ *
+ * @returns The networks file path
+ */
+export function networksPath(): string {
+  return process.env.SNACKMONEY_NETWORKS || join(stateDir(), "networks.json");
+}
+
+/**
+ * Validate one network entry, merged over the built-in network of the same id
+ *
+ * @param id - The network id
+ * @param data - The entry from the networks file
+ * @param builtin - The built-in network being overridden, if any
+ * @returns The network
+ */
+function parseNetwork(
+  id: string,
+  data: unknown,
+  builtin?: NetworkConfig,
+): NetworkConfig {
+  if (typeof data !== "object" || data === null || Array.isArray(data)) {
+    throw new Error(`${id} must be an object`);
+  }
+  const network = { ...builtin, ...data, id } as NetworkConfig;
+  network.name = network.name || id;
+  network.mainnet = Boolean(network.mainnet);
+
+  if (!/^[a-z0-9][a-z0-9-]*$/.test(id)) {
+    throw new Error(
+      `${id}: network ids may only contain lowercase letters, digits and "-"`,
+    );
+  }
+  if (network.family !== "evm" && network.family !== "svm") {
+    throw new Error(`${id}.family must be "evm" or "svm"`);
+  }
+  const prefix = network.family === "evm" ? "eip155:" : "solana:";
+  if (typeof network.caip2 !== "string" || !network.caip2.startsWith(prefix)) {
+    throw new Error(`${id}.caip2 must be a CAIP-2 id starting with ${prefix}`);
+  }
+  for (const key of ["usdc", "rpcUrl"] as const) {
+    if (typeof network[key] !== "string" || !network[key]) {
+      throw new Error(`${id}.${key} is required`);
+    }
+  }
+  if (
+    network.explorer !== undefined &&
+    (typeof network.explorer !== "string" || !network.explorer.includes("{tx}"))
+  ) {
+    throw new Error(`${id}.explorer must contain {tx}`);
+  }
+  return network;
+}
+
+/**
+ * Every known network: the built-in ones and those in the networks file
+ *
+ * @returns The networks by id
+ */
+export function listNetworks(): Record<string, NetworkConfig> {
+  const networks = builtinNetworks();
+  const path = networksPath();
+  if (!existsSync(path)) {
+    return networks;
+  }
+
+  try {
+    const data = JSON.parse(readFileSync(path, "utf-8"));
+    for (const [id, entry] of Object.entries(data)) {
+      networks[id] = parseNetwork(id, entry, networks[id]);
+    }
+  } catch (error: unknown) {
+    throw new Error(
+      `Invalid networks file ${path}: ${(error as Error).message}`,
+    );
+  }
+  return networks;
+}
+
+/**
+ * Look up a network by id or CAIP-2 id
+ *
+ * @param id - e.g. "base-sepolia" or "eip155:84532"
+ * @returns The network
+ */
+export function getNetwork(id: string): NetworkConfig {
+  const networks = listNetworks();
+  const key = id.toLowerCase();
+  const network =
+    networks[key] || Object.values(networks).find((n) => n.caip2 === id);
+  if (!network) {
+    throw new Error(
+      `Unknown network: ${id}. Use ${Object.keys(networks).join(", ")}, or add it to ${networksPath()}`,
+    );
+  }
+  return network;
+}
+
+/**
+ * Look up a network without failing on unknown ids, e.g. for ledger entries
+ * written with an older networks file
+ *
+ * @param id - Network id or CAIP-2 id
+ * @returns The network, if known
+ */
+export function findNetwork(id: string): NetworkConfig | undefined {
+  try {
+    return getNetwork(id);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Block explorer link for a transaction
+ *
+ * @param network - Network id or CAIP-2 id, e.g. the network of a decoded payment-response header
+ * @param transaction - The transaction hash (EVM) or signature (Solana)
+ * @returns The transaction URL, or undefined when the network has no explorer
+ */
+export function explorerUrl(
+  network: string,
+  transaction: string,
+): string | undefined {
+  return findNetwork(network)?.explorer?.replace(
+    "{tx}",
+    encodeURIComponent(transaction),
+  );
+}
@@ -0,0 +1,295 @@
+/**
+ * Shared output layer for CLI commands
+ *
+ * text   - the default emoji output
+ * plain  - the same lines without emoji (and without color when NO_COLOR is set)
+ * table  - plain progress followed by a table of payments
+ * json   - one result object on stdout, progress on stderr
+ * ndjson - one line per payment on stdout, progress on stderr
+ */
+
+import { format } from "util";
+import { PaymentRequirements } from "@x402/axios";
+import { PaymentError } from "./client.js";
+import { formatAmount } from "./amount.js";
+
+export const OUTPUT_FORMATS = [
+  "text",
+  "plain",
+  "table",
+  "json",
+  "ndjson",
+] as const;
+
+export type OutputFormat = (typeof OUTPUT_FORMATS)[number];
+
+/** One payment to one receiver, as reported by every command */
+export interface PaymentRecord {
+  platform: string;
+  receiver: string;
+  /** Amount in USDC, e.g. "0.5" */
+  amount: string;
+  /** Amount in USDC base units */
+  amountBaseUnits: string;
+  status: "success" | "failed" | "pending" | "unknown" | "dry-run" | "blocked";
+  network: string;
+  /** When the payment was made (history only) */
+  timestamp?: string;
+  txnId?: string;
+  transaction?: string;
+  /** Block explorer link for the transaction */
+  explorerUrl?: string;
+  receipt?: string;
+  description?: string;
+  /** Scheduled job that made the payment (history only) */
+  schedule?: string;
+  error?: string;
+}
+
+let outputFormat: OutputFormat = "text";
+
+/**
+ * Select the output format for this process
+ *
+ * @param value - The --output value; text when omitted
+ * @returns The selected format
+ */
+export function setOutputFormat(value?: string): OutputFormat {
+  const selected = (value || "text").toLowerCase();
+  if (!(OUTPUT_FORMATS as readonly string[]).includes(selected)) {
+    throw new Error(
+      `Invalid output format: ${value}. Use ${OUTPUT_FORMATS.join(", ")}`,
+    );
+  }
+  outputFormat = selected as OutputFormat;
+  return outputFormat;
+}
+
+/**
+ * The selected output format
+ *
+ * @returns The output format
+ */
+export function getOutputFormat(): OutputFormat {
+  return outputFormat;
+}
+
+/**
+ * Whether stdout is reserved for machine-readable results
+ *
+ * @returns True in json and ndjson modes
+ */
+export function isMachineOutput(): boolean {
+  return outputFormat === "json" || outputFormat === "ndjson";
+}
+
+/**
+ * Whether ANSI colors may be used on a stream
+ *
+ * @param stream - The stream written to
+ * @param stream.isTTY - Whether the stream is a terminal
+ * @returns True unless NO_COLOR is set or the stream is not a terminal
+ */
+function useColor(stream: { isTTY?: boolean }): boolean {
+  return !process.env.NO_COLOR && Boolean(stream.isTTY);
+}
+
+const STATUS_WORDS: [string, string, number][] = [
+  ["✅", "ok:", 32],
+  ["❌", "error:", 31],
+  ["⚠️", "warning:", 33],
+];
+
+/**
+ * Turn an emoji line into plain text: status emoji become words, other emoji
+ * are dropped
+ *
+ * @param text - The text
+ * @param color - Whether status words may be colored
+ * @returns The plain text
+ */
+export function toPlainText(text: string, color = false): string {
+  let plain = text;
+  for (const [emoji, word, code] of STATUS_WORDS) {
+    plain = plain
+      .split(emoji)
+      .join(color ? `\u001b[${code}m${word}\u001b[0m` : word);
+  }
+  return plain.replace(/\p{Extended_Pictographic}\uFE0F?\s*/gu, "");
+}
+
+/**
+ * Print a human-readable line: stdout in text, plain and table modes, stderr
+ * when stdout carries json/ndjson
+ *
+ * @param parts - Values to print, as for console.log
+ */
+export function print(...parts: unknown[]): void {
+  if (isMachineOutput()) {
+    console.error(...parts);
+  } else if (outputFormat === "text") {
+    console.log(...parts);
+  } else {
+    console.log(toPlainText(format(...parts), useColor(process.stdout)));
+  }
+}
+
+/**
+ * Print an error or warning line on stderr
+ *
+ * @param parts - Values to print, as for console.error
+ */
+export function printError(...parts: unknown[]): void {
+  if (outputFormat === "plain" || outputFormat === "table") {
+    console.error(toPlainText(format(...parts), useColor(process.stderr)));
+  } else {
+    console.error(...parts);
+  }
+}
+
+/**
+ * Serialize a value for JSON output: bigints become decimal strings
+ *
+ * @param value - The value
+ * @param indent - Indentation, for pretty-printed output
+ * @returns The JSON text
+ */
+function toJSON(value: unknown, indent?: number): string {
+  return JSON.stringify(
+    value,
+    (_key, item) => (typeof item === "bigint" ? item.toString() : item),
+    indent,
+  );
+}
+
+/**
+ * Print payments as an aligned table
+ *
+ * @param records - The payments
+ */
+function printTable(records: PaymentRecord[]): void {
+  const columns: [string, (record: PaymentRecord) => string][] = [
+    ["PLATFORM", (r) => r.platform],
+    ["RECEIVER", (r) => r.receiver],
+    ["AMOUNT", (r) => r.amount],
+    ["STATUS", (r) => r.status],
+    ["NETWORK", (r) => r.network],
+    ["TXN", (r) => r.txnId || ""],
+    ["RECEIPT", (r) => r.receipt || r.error || ""],
+  ];
+  const rows = records.map((record) => columns.map(([, get]) => get(record)));
+  const widths = columns.map(([title], i) =>
+    Math.max(title.length, ...rows.map((row) => row[i].length)),
+  );
+  const line = (cells: string[]) =>
+    cells
+      .map((cell, i) => cell.padEnd(widths[i]))
+      .join("  ")
+      .trimEnd();
+
+  const header = line(columns.map(([title]) => title));
+  console.log(
+    useColor(process.stdout) ? `\u001b[1m${header}\u001b[0m` : header,
+  );
+  for (const row of rows) {
+    console.log(line(row));
+  }
+}
+
+/**
+ * Print a command's final result in the selected format
+ *
+ * json prints the whole result once, ndjson one line per payment (or the
+ * result itself when a failure left no payments), table a table of payments;
+ * text and plain print nothing more since their lines were already printed.
+ *
+ * @param result - The command's result, including its payments
+ * @param result.payments - One record per receiver
+ */
+export function emitResult(
+  result: { payments: PaymentRecord[] } & Record<string, unknown>,
+): void {
+  switch (outputFormat) {
+    case "json":
+      console.log(toJSON(result, 2));
+      break;
+    case "ndjson": {
+      const { payments, ...summary } = result;
+      if (payments.length === 0 && summary.error) {
+        console.log(toJSON(summary));
+      }
+      for (const payment of payments) {
+        console.log(toJSON(payment));
+      }
+      break;
+    }
+    case "table":
+      console.log("");
+      printTable(result.payments);
+      break;
+  }
+}
+
+/**
+ * Build a payment record
+ *
+ * @param fields - Record fields, with the amount in base units
+ * @param fields.amount - Amount in USDC base units
+ * @returns The record
+ */
+export function paymentRecord(
+  fields: Omit<PaymentRecord, "amount" | "amountBaseUnits"> & {
+    amount: bigint;
+  },
+): PaymentRecord {
+  const { platform, receiver, amount, ...rest } = fields;
+  return {
+    platform,
+    receiver,
+    amount: formatAmount(amount),
+    amountBaseUnits: amount.toString(),
+    ...rest,
+  };
+}
+
+/**
+ * Report a command that failed before any payment was made, e.g. on a
+ * missing key or an invalid receiver, so json and ndjson output still get a
+ * result on stdout
+ *
+ * @param command - The command name
+ * @param error - The failure
+ */
+export function emitFailure(command: string, error: unknown): void {
+  emitResult({
+    command,
+    status: "failed",
+    error: errorRecord(
+      error instanceof Error ? error : new Error(String(error)),
+    ),
+    payments: [],
+  });
+}
+
+/**
+ * Structured form of a payment error
+ *
+ * @param error - The error; API details are included for payment errors
+ * @returns The error fields worth reporting
+ */
+export function errorRecord(error: Error): {
+  message: string;
+  status?: number;
+  data?: unknown;
+  accepts?: PaymentRequirements[];
+} {
+  if (!(error instanceof PaymentError)) {
+    return { message: error.message };
+  }
+  return {
+    message: error.message,
+    status: error.status,
+    data: error.data,
+    accepts: error.accepts,
+  };
+}
@@ -0,0 +1,185 @@
+/**
+ * Supported Snack Money platforms and receiver validation
+ */
+
+export type Platform = "x" | "farcaster" | "github" | "email" | "web";
+
+export const PLATFORMS: Platform[] = [
+  "x",
+  "farcaster",
+  "web",
+  "email",
+  "github",
+];
+
+/**
+ * A receiver on one of the supported platforms, e.g. x/jessepollak
+ */
+export interface PaymentTarget {
+  platform: Platform;
+  receiver: string;
+}
+
+/**
+ * Validate X/Twitter username
+ * Rules: 1-15 characters, alphanumeric and underscores only
+ *
+ * @param username - The username to validate
+ */
+export function validateXUsername(username: string): void {
+  if (!/^[a-zA-Z0-9_]{1,15}$/.test(username)) {
+    throw new Error(
+      `Invalid X/Twitter username: ${username}. Must be 1-15 alphanumeric characters or underscores.`,
+    );
+  }
+}
+
+/**
+ * Validate Farcaster username
+ * Rules: 1-16 characters, alphanumeric, hyphens, and underscores, must start with alphanumeric
+ *
+ * @param username - The username to validate
+ */
+export function validateFarcasterUsername(username: string): void {
+  if (!/^[a-zA-Z0-9][a-zA-Z0-9_-]{0,15}$/.test(username)) {
+    throw new Error(
+      `Invalid Farcaster username: ${username}. Must be 1-16 characters, start with alphanumeric, contain only letters, numbers, hyphens, and underscores.`,
+    );
+  }
+}
+
+/**
+ * Validate GitHub username
+ * Rules: 1-39 characters, alphanumeric and hyphens, cannot start/end with hyphen, no consecutive hyphens
+ *
+ * @param username - The username to validate
+ */
+export function validateGitHubUsername(username: string): void {
+  if (
+    !/^[a-zA-Z0-9]([a-zA-Z0-9-]{0,37}[a-zA-Z0-9])?$/.test(username) ||
+    /--/.test(username)
+  ) {
+    throw new Error(
+      `Invalid GitHub username: ${username}. Must be 1-39 alphanumeric characters or hyphens, cannot start/end with hyphen or have consecutive hyphens.`,
+    );
+  }
+}
+
+/**
+ * Validate email address
+ *
+ * @param email - The email address to validate
+ */
+export function validateEmail(email: string): void {
+  const emailRegex = /^[a-zA-Z0-9._%+-]+@[a-zA-Z0-9.-]+\.[a-zA-Z]{2,}$/;
+  if (!emailRegex.test(email)) {
+    throw new Error(`Invalid email address: ${email}`);
+  }
+}
+
+/**
+ * Validate web domain
+ * Rules: Valid domain name format
+ *
+ * @param domain - The domain to validate
+ */
+export function validateWebDomain(domain: string): void {
+  const domainRegex =
+    /^([a-zA-Z0-9]([a-zA-Z0-9-]{0,61}[a-zA-Z0-9])?\.)+[a-zA-Z]{2,}$/;
+  if (!domainRegex.test(domain)) {
+    throw new Error(
+      `Invalid web domain: ${domain}. Must be a valid domain name (e.g., snack.money)`,
+    );
+  }
+}
+
+/**
+ * Validate receiver based on platform
+ *
+ * @param platform - The normalized platform
+ * @param receiver - The receiver to validate
+ */
+export function validateReceiver(platform: Platform, receiver: string): void {
+  switch (platform) {
+    case "x":
+      validateXUsername(receiver);
+      break;
+    case "farcaster":
+      validateFarcasterUsername(receiver);
+      break;
+    case "github":
+      validateGitHubUsername(receiver);
+      break;
+    case "email":
+      validateEmail(receiver);
+      break;
+    case "web":
+      validateWebDomain(receiver);
+      break;
+  }
+}
+
+/**
+ * Normalize platform name with domain extensions:
+ * - "x.com", "twitter.com", "twitter", "x" -> "x"
+ * - "farcaster.xyz", "farcaster" -> "farcaster"
+ * - "github.com", "github" -> "github"
+ *
+ * @param platform - The platform name or domain
+ * @returns The normalized platform
+ */
+export function normalizePlatform(platform: string): Platform {
+  const lower = platform.toLowerCase();
+
+  // Map domain extensions and aliases to platform
+  const platformMap: Record<string, Platform> = {
+    x: "x",
+    "x.com": "x",
+    twitter: "x",
+    "twitter.com": "x",
+    farcaster: "farcaster",
+    "farcaster.xyz": "farcaster",
+    github: "github",
+    "github.com": "github",
+    email: "email",
+    web: "web",
+  };
+
+  const normalized = platformMap[lower];
+  if (!normalized) {
+    throw new Error(
+      `Unknown platform: ${platform}. Supported: x, twitter, farcaster, github, email, web (with optional domain extensions)`,
+    );
+  }
+
+  return normalized;
+}
+
+/**
+ * Parse URL-style payment target:
+ * - "x/aeyakovenko" -> { platform: "x", receiver: "aeyakovenko" }
+ * - "x.com/aeyakovenko" -> { platform: "x", receiver: "aeyakovenko" }
+ * - "twitter.com/user" -> { platform: "x", receiver: "user" }
+ * - "farcaster.xyz/toly" -> { platform: "farcaster", receiver: "toly" }
+ * - "github.com/user" -> { platform: "github", receiver: "user" }
+ * - "email/user@example.com" -> { platform: "email", receiver: "user@example.com" }
+ * - "web/snack.money" -> { platform: "web", receiver: "snack.money" }
+ *
+ * @param target - The platform/receiver string
+ * @returns The validated payment target
+ */
+export function parsePaymentTarget(target: string): PaymentTarget {
+  const parts = target.split("/");
+  if (parts.length !== 2) {
+    throw new Error(
+      `Invalid payment target format: ${target}. Expected format: platform/username`,
+    );
+  }
+
+  const [platformStr, receiver] = parts;
+
+  const platform = normalizePlatform(platformStr);
+  validateReceiver(platform, receiver);
+
+  return { platform, receiver };
+}
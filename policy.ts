@@ -0,0 +1,430 @@
+/**
+ * Spending policy
+ *
+ * An optional JSON file (~/.snackmoney/policy.json, or $SNACKMONEY_POLICY)
+ * limiting what the CLI may pay. Every command evaluates it before the x402
+ * client signs anything.
+ *
+ * {
+ *   "maxPerPayment": "$5",
+ *   "maxPerBatch": "$50",
+ *   "dailyLimit": "$100",
+ *   "monthlyLimit": "$1000",
+ *   "platforms": {
+ *     "x": { "allow": ["jessepollak", "aeyakovenko"] },
+ *     "github": { "deny": ["spammer"] }
+ *   },
+ *   "mainnet": { "maxPerPayment": "$1", "dailyLimit": "$20" }
+ * }
+ */
+
+import { existsSync, readFileSync } from "fs";
+import { join } from "path";
+import { PaymentRequest } from "./client.js";
+import { Platform, normalizePlatform } from "./platforms.js";
+import { parseAmount, formatAmount, sumAmounts } from "./amount.js";
+import { LedgerEntry, readLedger, stateDir } from "./ledger.js";
+import { findNetwork } from "./networks.js";
+import {
+  print,
+  printError,
+  emitResult,
+  emitFailure,
+  paymentRecord,
+} from "./output.js";
+
+export interface SpendingLimits {
+  /** Largest single payment, in USDC base units */
+  maxPerPayment?: bigint;
+  /** Largest total for one batch, in USDC base units */
+  maxPerBatch?: bigint;
+  /** Most that may be paid in any rolling 24 hours */
+  dailyLimit?: bigint;
+  /** Most that may be paid in any rolling 30 days */
+  monthlyLimit?: bigint;
+}
+
+export interface ReceiverRules {
+  /** When set, only these receivers may be paid on the platform */
+  allow?: string[];
+  /** These receivers may never be paid on the platform */
+  deny?: string[];
+}
+
+export interface SpendingPolicy extends SpendingLimits {
+  platforms: Partial<Record<Platform, ReceiverRules>>;
+  /** Stricter limits applied on top of the others on mainnet networks */
+  mainnet: SpendingLimits;
+}
+
+export interface PolicyViolation {
+  rule: keyof SpendingLimits | "allow" | "deny";
+  message: string;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Path of the spending policy file
+ *
+ * @returns The policy path
+ */
+export function policyPath(): string {
+  return process.env.SNACKMONEY_POLICY || join(stateDir(), "policy.json");
+}
+
+/**
+ * Whether a settlement network moves real funds
+ *
+ * @param network - The settlement network id
+ * @returns True for mainnet networks; unknown networks count as testnets
+ */
+export function isMainnet(network: string): boolean {
+  return findNetwork(network)?.mainnet ?? false;
+}
+
+/**
+ * A section of the policy file as an object, so its fields can be checked
+ *
+ * @param value - The parsed JSON value
+ * @returns The object; empty when the section is missing or not an object
+ */
+function policyObject(value: unknown): Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value)
+    ? (value as Record<string, unknown>)
+    : {};
+}
+
+/**
+ * Parse the limit fields of a policy section
+ *
+ * @param data - The section from the policy file
+ * @param section - Section name, for error messages
+ * @returns The limits in base units
+ */
+function parseLimits(data: unknown, section: string): SpendingLimits {
+  const fields = policyObject(data);
+  const limits: SpendingLimits = {};
+  const keys: (keyof SpendingLimits)[] = [
+    "maxPerPayment",
+    "maxPerBatch",
+    "dailyLimit",
+    "monthlyLimit",
+  ];
+  for (const key of keys) {
+    const value = fields[key];
+    if (value === undefined) {
+      continue;
+    }
+    try {
+      if (typeof value !== "string" && typeof value !== "number") {
+        throw new Error("must be an amount");
+      }
+      limits[key] = parseAmount(value);
+    } catch (error: unknown) {
+      throw new Error(`${section}${key}: ${(error as Error).message}`);
+    }
+  }
+  return limits;
+}
+
+/**
+ * Parse a spending policy document
+ *
+ * @param data - The parsed JSON document
+ * @returns The policy
+ */
+export function parsePolicy(data: unknown): SpendingPolicy {
+  const document = policyObject(data);
+  const platforms: SpendingPolicy["platforms"] = {};
+  for (const [name, rules] of Object.entries(
+    policyObject(document.platforms),
+  )) {
+    const platform = normalizePlatform(name);
+    const lists: ReceiverRules = {};
+    for (const list of ["allow", "deny"] as const) {
+      const receivers = policyObject(rules)[list];
+      if (receivers === undefined) {
+        continue;
+      }
+      if (!Array.isArray(receivers)) {
+        throw new Error(`platforms.${name}.${list} must be an array`);
+      }
+      lists[list] = receivers.map((r: unknown) =>
+        String(r).replace(/^@/, "").toLowerCase(),
+      );
+    }
+    platforms[platform] = lists;
+  }
+
+  return {
+    ...parseLimits(data, ""),
+    platforms,
+    mainnet: parseLimits(document.mainnet, "mainnet."),
+  };
+}
+
+/**
+ * Load the spending policy, if one is configured
+ *
+ * @returns The policy, or undefined when there is no policy file
+ */
+export function loadPolicy(): SpendingPolicy | undefined {
+  const path = policyPath();
+  if (!existsSync(path)) {
+    return undefined;
+  }
+  try {
+    return parsePolicy(JSON.parse(readFileSync(path, "utf-8")));
+  } catch (error: unknown) {
+    throw new Error(
+      `Invalid spending policy ${path}: ${(error as Error).message}`,
+    );
+  }
+}
+
+/**
+ * Identity of a payment across retries: the idempotency key it was sent
+ * with and its receiver, since a batch shares one key
+ *
+ * @param entry - Ledger entry
+ * @returns The identity, or undefined when the entry has no key
+ */
+function paymentIdentity(entry: LedgerEntry): string | undefined {
+  return entry.idempotencyKey
+    ? `${entry.idempotencyKey} ${entry.platform}/${entry.receiver}`
+    : undefined;
+}
+
+/**
+ * Total paid since a point in time, counting payments whose outcome is
+ * unknown since they may have settled, unless a later retry with the same
+ * idempotency key recorded the outcome
+ *
+ * @param ledger - Ledger entries, oldest first
+ * @param since - Start of the window
+ * @param mainnetOnly - Only count mainnet payments
+ * @returns The amount in base units
+ */
+function spentSince(
+  ledger: LedgerEntry[],
+  since: Date,
+  mainnetOnly: boolean,
+): bigint {
+  const retried = new Set<string>();
+  const counted: LedgerEntry[] = [];
+  for (const entry of [...ledger].reverse()) {
+    const identity = paymentIdentity(entry);
+    const superseded = identity !== undefined && retried.has(identity);
+    if (identity !== undefined) {
+      retried.add(identity);
+    }
+    if (
+      (entry.status === "success" ||
+        (entry.status === "unknown" && !superseded)) &&
+      new Date(entry.timestamp) >= since &&
+      (!mainnetOnly || isMainnet(entry.network))
+    ) {
+      counted.push(entry);
+    }
+  }
+  return sumAmounts(counted.map((entry) => BigInt(entry.amount)));
+}
+
+/**
+ * Check payments against one set of limits
+ *
+ * @param limits - The limits
+ * @param payments - The payments about to be made
+ * @param options - Evaluation options
+ * @param options.batch - Whether maxPerBatch applies
+ * @param options.ledger - Past payments
+ * @param options.now - Current time
+ * @param options.mainnet - Whether these are the mainnet limits (only mainnet spending counts)
+ * @returns The violated limits
+ */
+function checkLimits(
+  limits: SpendingLimits,
+  payments: PaymentRequest[],
+  options: {
+    batch: boolean;
+    ledger: LedgerEntry[];
+    now: Date;
+    mainnet: boolean;
+  },
+): PolicyViolation[] {
+  const violations: PolicyViolation[] = [];
+  const scope = options.mainnet ? " on mainnet" : "";
+  const total = sumAmounts(payments.map((p) => p.amount));
+
+  if (limits.maxPerPayment !== undefined) {
+    for (const { platform, receiver, amount } of payments) {
+      if (amount > limits.maxPerPayment) {
+        violations.push({
+          rule: "maxPerPayment",
+          message: `${platform}/${receiver}: ${formatAmount(amount)} USDC exceeds the max per payment of ${formatAmount(limits.maxPerPayment)} USDC${scope}`,
+        });
+      }
+    }
+  }
+
+  if (
+    options.batch &&
+    limits.maxPerBatch !== undefined &&
+    total > limits.maxPerBatch
+  ) {
+    violations.push({
+      rule: "maxPerBatch",
+      message: `Batch total ${formatAmount(total)} USDC exceeds the max per batch of ${formatAmount(limits.maxPerBatch)} USDC${scope}`,
+    });
+  }
+
+  const windows: [keyof SpendingLimits, string, number][] = [
+    ["dailyLimit", "daily", DAY_MS],
+    ["monthlyLimit", "monthly", 30 * DAY_MS],
+  ];
+  for (const [rule, label, ms] of windows) {
+    const limit = limits[rule];
+    if (limit === undefined) {
+      continue;
+    }
+    const spent = spentSince(
+      options.ledger,
+      new Date(options.now.getTime() - ms),
+      options.mainnet,
+    );
+    if (spent + total > limit) {
+      violations.push({
+        rule,
+        message: `${formatAmount(total)} USDC would exceed the ${label} limit of ${formatAmount(limit)} USDC${scope} (${formatAmount(spent)} USDC already spent in the last ${ms === DAY_MS ? "24 hours" : "30 days"})`,
+      });
+    }
+  }
+
+  return violations;
+}
+
+/**
+ * Check payments against a spending policy
+ *
+ * @param policy - The policy
+ * @param payments - The payments about to be made
+ * @param network - The settlement network
+ * @param options - Evaluation options
+ * @param options.batch - Whether the payments form one batch (maxPerBatch applies)
+ * @param options.ledger - Past payments, read from the local ledger by default
+ * @param options.now - Current time, for the rolling windows
+ * @returns Every violated rule; empty when the payments are allowed
+ */
+export function evaluatePolicy(
+  policy: SpendingPolicy,
+  payments: PaymentRequest[],
+  network: string,
+  options: { batch?: boolean; ledger?: LedgerEntry[]; now?: Date } = {},
+): PolicyViolation[] {
+  const violations: PolicyViolation[] = [];
+
+  for (const { platform, receiver } of payments) {
+    const name = receiver.replace(/^@/, "").toLowerCase();
+    const rules = policy.platforms[platform];
+    if (rules?.deny?.includes(name)) {
+      violations.push({
+        rule: "deny",
+        message: `${platform}/${receiver} is on the ${platform} denylist`,
+      });
+    }
+    if (rules?.allow && !rules.allow.includes(name)) {
+      violations.push({
+        rule: "allow",
+        message: `${platform}/${receiver} is not on the ${platform} allowlist`,
+      });
+    }
+  }
+
+  const context = {
+    batch: options.batch ?? false,
+    ledger: options.ledger ?? readLedger(),
+    now: options.now ?? new Date(),
+  };
+  violations.push(
+    ...checkLimits(policy, payments, { ...context, mainnet: false }),
+  );
+  if (isMainnet(network)) {
+    violations.push(
+      ...checkLimits(policy.mainnet, payments, { ...context, mainnet: true }),
+    );
+  }
+
+  return violations;
+}
+
+/**
+ * Check a command's payments against the spending policy before anything is
+ * signed, printing a violation report when they are not allowed
+ *
+ * A dry run reports violations, or an unreadable policy, but is never
+ * blocked.
+ *
+ * @param command - The command making the payments
+ * @param payments - The payments about to be made
+ * @param network - The settlement network
+ * @param options - Check options
+ * @param options.batch - Whether the payments form one batch
+ * @param options.dryRun - Only report, never block
+ * @returns False when the payments must not be made
+ */
+export function enforcePolicy(
+  command: string,
+  payments: PaymentRequest[],
+  network: string,
+  options: { batch?: boolean; dryRun?: boolean } = {},
+): boolean {
+  let violations: PolicyViolation[];
+  try {
+    const policy = loadPolicy();
+    violations = policy
+      ? evaluatePolicy(policy, payments, network, { batch: options.batch })
+      : [];
+  } catch (error: unknown) {
+    if (options.dryRun) {
+      print(`\n⚠️  Spending policy not checked: ${(error as Error).message}`);
+      return true;
+    }
+    printError(`❌ ${(error as Error).message}`);
+    emitFailure(command, error);
+    return false;
+  }
+
+  if (violations.length === 0) {
+    return true;
+  }
+
+  const log = options.dryRun ? print : printError;
+  log(
+    `\n🛑 ${options.dryRun ? "These payments would be blocked" : "Blocked"} by the spending policy in ${policyPath()}:`,
+  );
+  for (const violation of violations) {
+    log(`   • ${violation.message}`);
+  }
+  if (options.dryRun) {
+    return true;
+  }
+
+  emitResult({
+    command,
+    status: "blocked",
+    network,
+    violations,
+    payments: payments.map(({ platform, receiver, amount, description }) =>
+      paymentRecord({
+        platform,
+        receiver,
+        amount,
+        status: "blocked",
+        network,
+        description,
+      }),
+    ),
+  });
+  return false;
+}
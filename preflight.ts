@@ -0,0 +1,196 @@
+/**
+ * Preflight balance check
+ *
+ * Before a batch is signed, the sender's USDC balance is read over RPC and
+ * compared with what the payments will cost, Snack Money's fees included, so
+ * a short wallet is caught before settlement instead of failing half way.
+ */
+
+import { SnackMoneyClient, PaymentRequest } from "./client.js";
+import { formatAmount, sumAmounts } from "./amount.js";
+import { chunkByPlatform } from "./batches.js";
+import { requiredAmount } from "./display.js";
+import { fetchBalance } from "./rpc.js";
+import { promptYes } from "./confirm.js";
+import { print, printError, emitResult, paymentRecord } from "./output.js";
+
+export interface PaymentCost {
+  /** Sum of the payment amounts, in USDC base units */
+  amount: bigint;
+  /** What the x402 challenges ask for on top of the amounts */
+  fees: bigint;
+}
+
+/**
+ * Estimate what payments cost by asking the API for their x402 challenges
+ *
+ * Payments are quoted the way they will be sent: one batch-pay call per
+ * platform and chunk, each charging its own fee, or a single pay call for
+ * lone payments when singlePayments is set. Requests that cannot be quoted
+ * are counted without fees.
+ *
+ * @param client - The client that will pay
+ * @param payments - The payments about to be made
+ * @param singlePayments - Whether lone payments on a platform use the pay endpoint
+ * @param chunkSize - Most recipients per batch-pay call; unlimited when omitted
+ * @returns The amount and the expected fees
+ */
+export async function estimateCost(
+  client: SnackMoneyClient,
+  payments: PaymentRequest[],
+  singlePayments = false,
+  chunkSize?: number,
+): Promise<PaymentCost> {
+  const amount = sumAmounts(payments.map((p) => p.amount));
+  let fees = 0n;
+
+  for (const { platform, recipients, part, parts } of chunkByPlatform(
+    payments,
+    chunkSize,
+  )) {
+    const chunkAmount = sumAmounts(recipients.map((p) => p.amount));
+    try {
+      const quote =
+        singlePayments && recipients.length === 1 && parts === 1
+          ? await client.quote(recipients[0])
+          : await client.quoteBatch({ platform, receivers: recipients });
+      if (quote.selected && requiredAmount(quote.selected) > chunkAmount) {
+        fees += requiredAmount(quote.selected) - chunkAmount;
+      }
+    } catch (error: unknown) {
+      printError(
+        `⚠️  Could not quote the ${platform} payments${parts > 1 ? ` (request ${part}/${parts})` : ""}, fees are not included: ${(error as Error).message}`,
+      );
+    }
+  }
+
+  return { amount, fees };
+}
+
+/**
+ * Number of leading payments that fit in a balance
+ *
+ * @param payments - The payments, in the order they were given
+ * @param available - Balance left after fees, in base units
+ * @returns How many payments fit
+ */
+function fittingPayments(
+  payments: PaymentRequest[],
+  available: bigint,
+): number {
+  let spent = 0n;
+  let count = 0;
+  for (const { amount } of payments) {
+    if (spent + amount > available) {
+      break;
+    }
+    spent += amount;
+    count++;
+  }
+  return count;
+}
+
+/**
+ * Check the sender can afford the payments before anything is signed
+ *
+ * When the balance falls short the shortfall is reported and the command
+ * either stops, or pays only the leading payments that fit: with --trim, or
+ * when the user accepts the offer on a terminal. A balance that cannot be read
+ * is reported but does not stop the payments.
+ *
+ * @param command - The command making the payments
+ * @param client - The connected client
+ * @param sender - The address paying
+ * @param payments - The payments about to be made
+ * @param options - Check options
+ * @param options.trim - Pay the payments that fit without asking
+ * @param options.singlePayments - Whether lone payments on a platform use the pay endpoint
+ * @param options.chunkSize - Most recipients per batch-pay call
+ * @returns How many of the payments, from the start, may be made; 0 to stop
+ */
+export async function checkBalance(
+  command: string,
+  client: SnackMoneyClient,
+  sender: string,
+  payments: PaymentRequest[],
+  options: {
+    trim?: boolean;
+    singlePayments?: boolean;
+    chunkSize?: number;
+  } = {},
+): Promise<number> {
+  const network = client.settlementNetwork;
+  print("\n🔎 Checking USDC balance...");
+
+  let balance: bigint;
+  try {
+    balance = (await fetchBalance(network, sender)).usdc;
+  } catch (error: unknown) {
+    printError(`⚠️  ${(error as Error).message}`);
+    printError("   Continuing without a balance check");
+    return payments.length;
+  }
+
+  const { amount, fees } = await estimateCost(
+    client,
+    payments,
+    options.singlePayments,
+    options.chunkSize,
+  );
+  const required = amount + fees;
+  const feeNote = fees > 0n ? ` incl. ${formatAmount(fees)} USDC fees` : "";
+
+  if (required <= balance) {
+    print(
+      `✅ Balance ${formatAmount(balance)} USDC covers ${formatAmount(required)} USDC${feeNote}`,
+    );
+    return payments.length;
+  }
+
+  printError(
+    `\n❌ Insufficient USDC: ${sender} holds ${formatAmount(balance)} USDC but the payments need ${formatAmount(required)} USDC${feeNote}`,
+  );
+  printError(`   Short by ${formatAmount(required - balance)} USDC`);
+
+  const fitting =
+    fees < balance ? fittingPayments(payments, balance - fees) : 0;
+  if (fitting > 0) {
+    const fittingAmount = sumAmounts(
+      payments.slice(0, fitting).map((p) => p.amount),
+    );
+    const offer = `the first ${fitting} of ${payments.length} payments (${formatAmount(fittingAmount)} USDC)`;
+    if (options.trim) {
+      print(`✂️  Paying only ${offer}`);
+      return fitting;
+    }
+    if (process.stdin.isTTY) {
+      if (await promptYes(`Pay only ${offer}? Type "yes" to confirm: `)) {
+        return fitting;
+      }
+    } else {
+      printError(`   Pass --trim to pay only ${offer}`);
+    }
+  }
+
+  emitResult({
+    command,
+    status: "insufficient-funds",
+    network,
+    sender,
+    balance: formatAmount(balance),
+    required: formatAmount(required),
+    fees: formatAmount(fees),
+    shortfall: formatAmount(required - balance),
+    payments: payments.map(({ platform, receiver, amount, description }) =>
+      paymentRecord({
+        platform,
+        receiver,
+        amount,
+        status: "blocked",
+        network,
+        description,
+      }),
+    ),
+  });
+  return 0;
+}
@@ -0,0 +1,303 @@
+/**
+ * Config file and named profiles
+ *
+ * Settings that would otherwise be passed on every run live in
+ * ~/.config/snackmoney/config ($XDG_CONFIG_HOME/snackmoney/config, or
+ * $SNACKMONEY_CONFIG), with project overrides in the nearest .snackmoneyrc:
+ *
+ * {
+ *   "profile": "default",
+ *   "profiles": {
+ *     "default": { "network": "base", "wallet": "main" },
+ *     "testnet": {
+ *       "apiUrl": "http://localhost:4402",
+ *       "network": "base-sepolia",
+ *       "wallet": "test",
+ *       "output": "json"
+ *     }
+ *   }
+ * }
+ *
+ * Command-line flags win over environment variables (a .env file included),
+ * which win over .snackmoneyrc, which wins over the user config file.
+ */
+
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "fs";
+import { homedir } from "os";
+import { dirname, isAbsolute, join, resolve } from "path";
+import { config as loadDotenv } from "dotenv";
+import { getNetwork } from "./networks.js";
+import { OUTPUT_FORMATS } from "./output.js";
+
+export const PROFILE_KEYS = [
+  "apiUrl",
+  "network",
+  "wallet",
+  "memo",
+  "output",
+  "policy",
+  "facilitatorUrl",
+] as const;
+
+export type ProfileKey = (typeof PROFILE_KEYS)[number];
+
+/** Defaults for one way of running the CLI, e.g. "testnet" */
+export type Profile = Partial<Record<ProfileKey, string>>;
+
+export interface ConfigFile {
+  /** Profile used when neither --profile nor SNACKMONEY_PROFILE is given */
+  profile?: string;
+  profiles: Record<string, Profile>;
+}
+
+export interface ResolvedProfile {
+  name: string;
+  profile: Profile;
+  /** File each setting came from */
+  sources: Partial<Record<ProfileKey, string>>;
+}
+
+/** Environment variables read by the rest of the CLI, by profile setting */
+const PROFILE_ENV: Partial<Record<ProfileKey, string>> = {
+  apiUrl: "RESOURCE_SERVER_URL",
+  wallet: "SNACKMONEY_WALLET",
+  policy: "SNACKMONEY_POLICY",
+  facilitatorUrl: "SNACKMONEY_FACILITATOR_URL",
+};
+
+const PROJECT_CONFIG = ".snackmoneyrc";
+
+/**
+ * Path of the user config file
+ *
+ * @returns The config file path
+ */
+export function configPath(): string {
+  if (process.env.SNACKMONEY_CONFIG) {
+    return process.env.SNACKMONEY_CONFIG;
+  }
+  const base = process.env.XDG_CONFIG_HOME || join(homedir(), ".config");
+  return join(base, "snackmoney", "config");
+}
+
+/**
+ * Find the nearest .snackmoneyrc in a directory or its parents
+ *
+ * @param dir - Directory to start from
+ * @returns The project config path, if there is one
+ */
+export function projectConfigPath(dir = process.cwd()): string | undefined {
+  let current = resolve(dir);
+  for (;;) {
+    const candidate = join(current, PROJECT_CONFIG);
+    if (existsSync(candidate)) {
+      return candidate;
+    }
+    const parent = dirname(current);
+    if (parent === current) {
+      return undefined;
+    }
+    current = parent;
+  }
+}
+
+/**
+ * Check a profile setting, normalising it where there is a canonical form
+ *
+ * @param key - The setting
+ * @param value - The value given
+ * @returns The value to store
+ */
+export function validateSetting(key: string, value: string): string {
+  if (!(PROFILE_KEYS as readonly string[]).includes(key)) {
+    throw new Error(`Unknown setting: ${key}. Use ${PROFILE_KEYS.join(", ")}`);
+  }
+  if (typeof value !== "string" || !value.trim()) {
+    throw new Error(`${key} must be a non-empty string`);
+  }
+
+  switch (key as ProfileKey) {
+    case "apiUrl":
+    case "facilitatorUrl": {
+      let url: URL;
+      try {
+        url = new URL(value);
+      } catch {
+        throw new Error(`${key} must be a URL: ${value}`);
+      }
+      if (url.protocol !== "http:" && url.protocol !== "https:") {
+        throw new Error(`${key} must be an http(s) URL: ${value}`);
+      }
+      return value.replace(/\/+$/, "");
+    }
+    case "network":
+      return getNetwork(value).id;
+    case "wallet":
+      if (!/^[\w.-]+$/.test(value)) {
+        throw new Error(`Invalid wallet name: ${value}`);
+      }
+      return value;
+    case "output": {
+      const format = value.toLowerCase();
+      if (!(OUTPUT_FORMATS as readonly string[]).includes(format)) {
+        throw new Error(
+          `Invalid output format: ${value}. Use ${OUTPUT_FORMATS.join(", ")}`,
+        );
+      }
+      return format;
+    }
+    default:
+      return value;
+  }
+}
+
+/**
+ * Read a config file
+ *
+ * @param path - The file to read
+ * @returns The config; empty when the file does not exist
+ */
+export function readConfig(path: string): ConfigFile {
+  if (!existsSync(path)) {
+    return { profiles: {} };
+  }
+
+  try {
+    const data = JSON.parse(readFileSync(path, "utf-8"));
+    if (typeof data !== "object" || data === null || Array.isArray(data)) {
+      throw new Error("expected a JSON object");
+    }
+    if (data.profile !== undefined && typeof data.profile !== "string") {
+      throw new Error("profile must be a profile name");
+    }
+    const profiles: Record<string, Profile> = {};
+    for (const [name, profile] of Object.entries(data.profiles ?? {})) {
+      if (typeof profile !== "object" || profile === null) {
+        throw new Error(`profiles.${name} must be an object`);
+      }
+      profiles[name] = {};
+      for (const [key, value] of Object.entries(profile)) {
+        try {
+          profiles[name][key as ProfileKey] = validateSetting(
+            key,
+            value as string,
+          );
+        } catch (error: unknown) {
+          throw new Error(`profiles.${name}: ${(error as Error).message}`);
+        }
+      }
+    }
+    return { profile: data.profile, profiles };
+  } catch (error: unknown) {
+    throw new Error(`Invalid config file ${path}: ${(error as Error).message}`);
+  }
+}
+
+/**
+ * Write a config file, creating its directory
+ *
+ * @param path - The file to write
+ * @param config - The config
+ */
+export function writeConfig(path: string, config: ConfigFile): void {
+  mkdirSync(dirname(path), { recursive: true, mode: 0o700 });
+  writeFileSync(path, `${JSON.stringify(config, null, 2)}\n`);
+}
+
+/**
+ * The config files in force, user file first
+ *
+ * @returns Path and contents of each file
+ */
+export function configLayers(): { path: string; config: ConfigFile }[] {
+  const layers = [{ path: configPath(), config: readConfig(configPath()) }];
+  const project = projectConfigPath();
+  if (project) {
+    layers.push({ path: project, config: readConfig(project) });
+  }
+  return layers;
+}
+
+/**
+ * Name of the profile in use
+ *
+ * @param name - Profile given with --profile
+ * @param layers - The config files, see configLayers
+ * @returns --profile, SNACKMONEY_PROFILE, the config files' default, or "default"
+ */
+export function selectedProfile(
+  name?: string,
+  layers = configLayers(),
+): string {
+  const configured = layers
+    .map(({ config }) => config.profile)
+    .filter(Boolean)
+    .pop();
+  return name || process.env.SNACKMONEY_PROFILE || configured || "default";
+}
+
+/**
+ * Merge a profile from the config files, .snackmoneyrc over the user file
+ *
+ * @param name - Profile given with --profile
+ * @returns The profile and where each setting came from
+ */
+export function resolveProfile(name?: string): ResolvedProfile {
+  const layers = configLayers();
+  const selected = selectedProfile(name, layers);
+  const resolved: ResolvedProfile = {
+    name: selected,
+    profile: {},
+    sources: {},
+  };
+
+  const found = layers.filter(({ config }) => config.profiles[selected]);
+  if (found.length === 0 && selected !== "default") {
+    throw new Error(
+      `Unknown profile: ${selected}. Add it with: snackmoney config set <key> <value> --profile ${selected}`,
+    );
+  }
+
+  for (const { path, config } of found) {
+    for (const [key, value] of Object.entries(config.profiles[selected])) {
+      // Policy paths are relative to the file that names them
+      resolved.profile[key as ProfileKey] =
+        key === "policy" && !isAbsolute(value)
+          ? resolve(dirname(path), value)
+          : value;
+      resolved.sources[key as ProfileKey] = path;
+    }
+  }
+  return resolved;
+}
+
+/**
+ * Load variables from a .env file in the current directory, without
+ * overriding ones already set
+ */
+export function loadEnvFile(): void {
+  loadDotenv({ quiet: true });
+}
+
+/**
+ * Load .env and the selected profile for a command
+ *
+ * Settings the rest of the CLI reads from the environment (API URL, wallet,
+ * policy path) are exported unless the variable is already set; the returned
+ * profile supplies the defaults for --network, --memo and --output.
+ *
+ * @param name - Profile given with --profile
+ * @returns The profile
+ */
+export function applyProfile(name?: string): Profile {
+  loadEnvFile();
+  const { profile } = resolveProfile(name);
+
+  for (const [key, variable] of Object.entries(PROFILE_ENV)) {
+    const value = profile[key as ProfileKey];
+    if (value && !process.env[variable]) {
+      process.env[variable] = value;
+    }
+  }
+  return profile;
+}
@@ -0,0 +1,155 @@
+/**
+ * Batch payout reports
+ *
+ * `batch-send --report <path>` writes one row per receiver of the batch, in
+ * the order of the payout list, as CSV, TSV or JSON depending on the file
+ * extension, so the outcome can be shared without access to the CLI's state.
+ */
+
+import { mkdirSync, writeFileSync } from "fs";
+import { dirname } from "path";
+import { BatchState, RecipientState, summarizeBatch } from "./batches.js";
+import { formatAmount, sumAmounts } from "./amount.js";
+import { formatDelimited } from "./csv.js";
+
+export type ReportFormat = "csv" | "tsv" | "json";
+
+export interface ReportRow {
+  platform: string;
+  receiver: string;
+  /** Amount in USDC, e.g. "0.5" */
+  amount: string;
+  /** paid, failed, pending (never sent) or unknown (sent, no response) */
+  status: "paid" | "failed" | "pending" | "unknown";
+  receipt?: string;
+  txn_id?: string;
+  /** On-chain transaction hash */
+  transaction?: string;
+  description?: string;
+  error?: string;
+}
+
+/** Columns of CSV and TSV reports, in order */
+const COLUMNS: (keyof ReportRow)[] = [
+  "platform",
+  "receiver",
+  "amount",
+  "status",
+  "receipt",
+  "txn_id",
+  "transaction",
+  "description",
+  "error",
+];
+
+/**
+ * Report format for a path, from its extension
+ *
+ * @param path - The report path
+ * @returns The format
+ */
+export function reportFormat(path: string): ReportFormat {
+  const extension = path.toLowerCase().match(/\.(csv|tsv|json)$/)?.[1];
+  if (!extension) {
+    throw new Error(
+      `Unsupported report file: ${path}. Use a .csv, .tsv or .json path`,
+    );
+  }
+  return extension as ReportFormat;
+}
+
+/**
+ * Report rows for batch recipients
+ *
+ * @param recipients - The recipients
+ * @returns One row per recipient
+ */
+export function reportRows(recipients: RecipientState[]): ReportRow[] {
+  const statuses = {
+    paid: "paid",
+    failed: "failed",
+    pending: "pending",
+    submitted: "unknown",
+  } as const;
+  return recipients.map((r) => ({
+    platform: r.platform,
+    receiver: r.receiver,
+    amount: formatAmount(BigInt(r.amount)),
+    status: statuses[r.status],
+    receipt: r.receipt,
+    txn_id: r.txnId,
+    transaction: r.transaction,
+    description: r.description,
+    error: r.error,
+  }));
+}
+
+/**
+ * Keep spreadsheet apps from reading a text cell as a formula
+ *
+ * @param value - The cell
+ * @returns The cell, prefixed with ' when it starts like a formula
+ */
+function safeCell(value: string): string {
+  return /^[=+\-@]/.test(value) ? `'${value}` : value;
+}
+
+/**
+ * Serialize a batch's report
+ *
+ * @param batch - The batch state
+ * @param format - csv, tsv or json
+ * @returns The file contents
+ */
+export function formatReport(batch: BatchState, format: ReportFormat): string {
+  const rows = reportRows(batch.recipients);
+  if (format === "json") {
+    const counts = summarizeBatch(batch);
+    const paid = batch.recipients.filter((r) => r.status === "paid");
+    const report = {
+      batchId: batch.id,
+      network: batch.network,
+      createdAt: batch.createdAt,
+      generatedAt: new Date().toISOString(),
+      campaign: batch.campaign,
+      reference: batch.reference,
+      totals: {
+        recipients: batch.recipients.length,
+        paid: counts.paid,
+        failed: counts.failed,
+        pending: counts.pending,
+        unknown: counts.submitted,
+        amount: formatAmount(
+          sumAmounts(batch.recipients.map((r) => BigInt(r.amount))),
+        ),
+        paidAmount: formatAmount(sumAmounts(paid.map((r) => BigInt(r.amount)))),
+      },
+      recipients: rows,
+    };
+    return `${JSON.stringify(report, null, 2)}\n`;
+  }
+
+  return formatDelimited(
+    [
+      COLUMNS,
+      ...rows.map((row) =>
+        COLUMNS.map((column) =>
+          column === "amount" ? row.amount : safeCell(row[column] ?? ""),
+        ),
+      ),
+    ],
+    format === "tsv" ? "\t" : ",",
+  );
+}
+
+/**
+ * Write a batch's report
+ *
+ * @param path - The report path; its extension selects the format
+ * @param batch - The batch state
+ */
+export function writeReport(path: string, batch: BatchState): void {
+  const body = formatReport(batch, reportFormat(path));
+  mkdirSync(dirname(path), { recursive: true });
+  writeFileSync(path, body);
+}
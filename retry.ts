@@ -0,0 +1,142 @@
+/**
+ * Retry policy for payment requests
+ *
+ * Only failures of the unsigned first attempt are retried: connection errors
+ * and timeouts, and 429 or 5xx responses. Once the signed payment has been
+ * sent, a failure leaves the outcome unknown (the payment may have settled),
+ * so it is reported instead of paying again with a fresh signature. Every
+ * attempt of a request still sends the same idempotency key.
+ */
+
+import axios from "axios";
+
+export interface RetryOptions {
+  /** Retries after the first attempt; 0 disables retrying */
+  retries: number;
+  /** Delay ceiling of the first retry, doubled for each further retry */
+  baseDelayMs: number;
+  /** Longest delay between two attempts */
+  maxDelayMs: number;
+}
+
+export const DEFAULT_RETRY_OPTIONS: RetryOptions = {
+  retries: 3,
+  baseDelayMs: 500,
+  maxDelayMs: 10_000,
+};
+
+/** Header carrying the client-generated idempotency key */
+export const IDEMPOTENCY_HEADER = "Idempotency-Key";
+
+/** Headers carrying a signed x402 payment */
+const PAYMENT_HEADERS = ["PAYMENT-SIGNATURE", "X-PAYMENT"];
+
+/** Socket errors worth another attempt */
+const TRANSIENT_CODES = new Set([
+  "ECONNRESET",
+  "ECONNREFUSED",
+  "ECONNABORTED",
+  "ETIMEDOUT",
+  "EPIPE",
+  "EAI_AGAIN",
+  "ERR_NETWORK",
+]);
+
+/**
+ * Whether a failed request carried a signed payment, so it may have settled
+ *
+ * @param error - What the HTTP client threw
+ * @returns True when the failing attempt was the paid retry of a 402
+ */
+export function paymentWasSent(error: unknown): boolean {
+  if (!axios.isAxiosError(error) || !error.config) {
+    return false;
+  }
+  const config = error.config as typeof error.config & {
+    __is402Retry?: boolean;
+  };
+  const headers = config.headers ?? {};
+  return (
+    config.__is402Retry === true ||
+    PAYMENT_HEADERS.some((name) => headers[name] !== undefined)
+  );
+}
+
+/**
+ * Whether a failed request may be sent again
+ *
+ * @param error - What the HTTP client threw
+ * @returns True for connection errors and 429/5xx responses of the unsigned
+ * first attempt
+ */
+export function isRetryable(error: unknown): boolean {
+  if (!axios.isAxiosError(error) || paymentWasSent(error)) {
+    return false;
+  }
+  const response = error.response;
+  if (!response) {
+    return TRANSIENT_CODES.has(error.code ?? "");
+  }
+  return response.status === 429 || response.status >= 500;
+}
+
+/**
+ * Delay requested by a Retry-After header
+ *
+ * @param error - What the HTTP client threw
+ * @returns The delay in milliseconds, if the server sent one
+ */
+export function retryAfterMs(error: unknown): number | undefined {
+  if (!axios.isAxiosError(error)) {
+    return undefined;
+  }
+  const header = error.response?.headers?.["retry-after"];
+  if (typeof header !== "string" || !header.trim()) {
+    return undefined;
+  }
+  const seconds = Number(header);
+  if (!isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+  const date = Date.parse(header);
+  return isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/**
+ * Delay before a retry: exponential backoff with full jitter, or the
+ * server's Retry-After when it sent one, capped at maxDelayMs
+ *
+ * @param retry - Which retry this is, from 1
+ * @param options - The retry policy
+ * @param error - The failure being retried
+ * @returns The delay in milliseconds
+ */
+export function backoffDelay(
+  retry: number,
+  options: RetryOptions,
+  error?: unknown,
+): number {
+  const requested = retryAfterMs(error);
+  if (requested !== undefined) {
+    return Math.min(requested, options.maxDelayMs);
+  }
+  const ceiling = Math.min(
+    options.maxDelayMs,
+    options.baseDelayMs * 2 ** (retry - 1),
+  );
+  return Math.round(Math.random() * ceiling);
+}
+
+/**
+ * Parse a retry count, e.g. from --retries or SNACKMONEY_RETRIES
+ *
+ * @param value - The count
+ * @returns The number of retries
+ */
+export function parseRetries(value: string): number {
+  const retries = Number(value);
+  if (!Number.isInteger(retries) || retries < 0 || retries > 10) {
+    throw new Error(`Invalid retries: ${value}. Use a number from 0 to 10`);
+  }
+  return retries;
+}
@@ -0,0 +1,322 @@
+/**
+ * On-chain balance and transaction lookups
+ *
+ * Reads the USDC and native gas balance of an address, and the token
+ * transfers of a settled transaction, over JSON-RPC, using the RPC endpoint
+ * and USDC address of the network in the registry. Set
+ * BASE_RPC_URL or SOLANA_RPC_URL, or add a custom network, to point at your
+ * own node, a local anvil or a solana-test-validator.
+ */
+
+import {
+  createPublicClient,
+  erc20Abi,
+  formatUnits,
+  http,
+  parseEventLogs,
+  Hex,
+  TransactionReceiptNotFoundError,
+} from "viem";
+import { address, createSolanaRpc, signature } from "@solana/kit";
+import { getNetwork } from "./networks.js";
+
+export interface WalletBalance {
+  /** Settlement network, e.g. "base" or "solana-devnet" */
+  network: string;
+  address: string;
+  /** RPC endpoint the balances were read from */
+  rpcUrl: string;
+  /** USDC token contract (Base) or mint (Solana) */
+  usdcAddress: string;
+  /** USDC balance in base units */
+  usdc: bigint;
+  /** Native gas token: ETH on Base, SOL on Solana */
+  nativeSymbol: string;
+  /** Native balance in the token's smallest unit (wei, lamports) */
+  native: bigint;
+  nativeDecimals: number;
+}
+
+/** A token movement within a transaction */
+export interface TokenTransfer {
+  /** Token contract (EVM) or mint (Solana) */
+  token: string;
+  from: string;
+  to: string;
+  /** Amount in the token's base units */
+  amount: bigint;
+}
+
+export interface TransactionLookup {
+  network: string;
+  /** Transaction hash (EVM) or signature (Solana) */
+  transaction: string;
+  /** RPC endpoint the transaction was read from */
+  rpcUrl: string;
+  /** False when the node does not know the transaction */
+  found: boolean;
+  /** Whether the transaction executed without reverting */
+  succeeded: boolean;
+  /** Block number (EVM) or slot (Solana) that included the transaction */
+  block?: bigint;
+  /** Blocks built on the transaction's block, counting that block itself */
+  confirmations?: bigint;
+  /** Solana only: whether the cluster has finalized the transaction */
+  finalized?: boolean;
+  transfers: TokenTransfer[];
+}
+
+/** A token account balance as Solana reports it around a transaction */
+interface SolanaTokenBalance {
+  mint: string;
+  owner?: string;
+  uiTokenAmount: { amount: string };
+}
+
+/**
+ * RPC endpoint for a settlement network
+ *
+ * @param network - The settlement network id
+ * @returns The network's RPC endpoint
+ */
+export function rpcUrl(network: string): string {
+  return getNetwork(network).rpcUrl;
+}
+
+/**
+ * USDC token contract or mint on a settlement network
+ *
+ * @param network - The settlement network id
+ * @returns The USDC address
+ */
+export function usdcAddress(network: string): string {
+  return getNetwork(network).usdc;
+}
+
+/**
+ * Read the USDC and native balance of an address
+ *
+ * @param network - The settlement network
+ * @param owner - The address to look up
+ * @param url - RPC endpoint, defaulting to rpcUrl(network)
+ * @returns The balances
+ */
+export async function fetchBalance(
+  network: string,
+  owner: string,
+  url = rpcUrl(network),
+): Promise<WalletBalance> {
+  const { usdc, family } = getNetwork(network);
+
+  try {
+    if (family === "svm") {
+      const rpc = createSolanaRpc(url);
+      const [lamports, tokenAccounts] = await Promise.all([
+        rpc.getBalance(address(owner)).send(),
+        rpc
+          .getTokenAccountsByOwner(
+            address(owner),
+            { mint: address(usdc) },
+            { encoding: "jsonParsed" },
+          )
+          .send(),
+      ]);
+      return {
+        network,
+        address: owner,
+        rpcUrl: url,
+        usdcAddress: usdc,
+        // A wallet can hold USDC in more than one token account
+        usdc: tokenAccounts.value.reduce(
+          (sum, { account }) =>
+            sum + BigInt(account.data.parsed.info.tokenAmount.amount),
+          0n,
+        ),
+        nativeSymbol: "SOL",
+        native: lamports.value,
+        nativeDecimals: 9,
+      };
+    }
+
+    const client = createPublicClient({ transport: http(url) });
+    const [wei, balance] = await Promise.all([
+      client.getBalance({ address: owner as Hex }),
+      client.readContract({
+        address: usdc as Hex,
+        abi: erc20Abi,
+        functionName: "balanceOf",
+        args: [owner as Hex],
+      }),
+    ]);
+    return {
+      network,
+      address: owner,
+      rpcUrl: url,
+      usdcAddress: usdc,
+      usdc: balance,
+      nativeSymbol: "ETH",
+      native: wei,
+      nativeDecimals: 18,
+    };
+  } catch (error: unknown) {
+    throw new Error(
+      `Could not read balances from ${url}: ${(error as Error).message.split("\n")[0]}`,
+    );
+  }
+}
+
+/**
+ * Token transfers of a Solana transaction, from its token balance changes:
+ * the owner whose balance of a mint went down paid each owner whose balance
+ * of it went up
+ *
+ * @param before - Token balances before the transaction
+ * @param after - Token balances after the transaction
+ * @returns The transfers
+ */
+function solanaTransfers(
+  before: readonly SolanaTokenBalance[],
+  after: readonly SolanaTokenBalance[],
+): TokenTransfer[] {
+  const changes = new Map<
+    string,
+    { mint: string; owner: string; delta: bigint }
+  >();
+  const apply = (balances: readonly SolanaTokenBalance[], sign: bigint) => {
+    for (const { mint, owner, uiTokenAmount } of balances) {
+      if (!owner) {
+        continue;
+      }
+      const key = `${mint}/${owner}`;
+      const change = changes.get(key) || { mint, owner, delta: 0n };
+      change.delta += sign * BigInt(uiTokenAmount.amount);
+      changes.set(key, change);
+    }
+  };
+  apply(before, -1n);
+  apply(after, 1n);
+
+  const transfers: TokenTransfer[] = [];
+  for (const sent of changes.values()) {
+    if (sent.delta >= 0n) {
+      continue;
+    }
+    for (const received of changes.values()) {
+      if (received.mint === sent.mint && received.delta > 0n) {
+        transfers.push({
+          token: sent.mint,
+          from: sent.owner,
+          to: received.owner,
+          amount: received.delta,
+        });
+      }
+    }
+  }
+  return transfers;
+}
+
+/**
+ * Read a settled transaction: whether it succeeded, how deep it is and which
+ * tokens it moved
+ *
+ * @param network - The settlement network
+ * @param transaction - Transaction hash (EVM) or signature (Solana)
+ * @param url - RPC endpoint, defaulting to rpcUrl(network)
+ * @returns The transaction
+ */
+export async function fetchTransaction(
+  network: string,
+  transaction: string,
+  url = rpcUrl(network),
+): Promise<TransactionLookup> {
+  const lookup: TransactionLookup = {
+    network,
+    transaction,
+    rpcUrl: url,
+    found: false,
+    succeeded: false,
+    transfers: [],
+  };
+
+  try {
+    if (getNetwork(network).family === "svm") {
+      const rpc = createSolanaRpc(url);
+      const [tx, statuses] = await Promise.all([
+        rpc
+          .getTransaction(signature(transaction), {
+            encoding: "jsonParsed",
+            maxSupportedTransactionVersion: 0,
+            commitment: "confirmed",
+          })
+          .send(),
+        rpc
+          .getSignatureStatuses([signature(transaction)], {
+            searchTransactionHistory: true,
+          })
+          .send(),
+      ]);
+      if (!tx) {
+        return lookup;
+      }
+      const status = statuses.value[0];
+      return {
+        ...lookup,
+        found: true,
+        succeeded: !tx.meta?.err,
+        block: tx.slot,
+        // Solana stops counting confirmations once a slot is finalized
+        confirmations: status?.confirmations ?? undefined,
+        finalized: status?.confirmationStatus === "finalized",
+        transfers: solanaTransfers(
+          tx.meta?.preTokenBalances ?? [],
+          tx.meta?.postTokenBalances ?? [],
+        ),
+      };
+    }
+
+    const client = createPublicClient({ transport: http(url) });
+    let receipt;
+    try {
+      receipt = await client.getTransactionReceipt({
+        hash: transaction as Hex,
+      });
+    } catch (error: unknown) {
+      if (error instanceof TransactionReceiptNotFoundError) {
+        return lookup;
+      }
+      throw error;
+    }
+    const latest = await client.getBlockNumber();
+    return {
+      ...lookup,
+      found: true,
+      succeeded: receipt.status === "success",
+      block: receipt.blockNumber,
+      confirmations: latest - receipt.blockNumber + 1n,
+      transfers: parseEventLogs({
+        abi: erc20Abi,
+        eventName: "Transfer",
+        logs: receipt.logs,
+      }).map((log) => ({
+        token: log.address,
+        from: log.args.from,
+        to: log.args.to,
+        amount: log.args.value,
+      })),
+    };
+  } catch (error: unknown) {
+    throw new Error(
+      `Could not read transaction ${transaction} from ${url}: ${(error as Error).message.split("\n")[0]}`,
+    );
+  }
+}
+
+/**
+ * Format a native balance
+ *
+ * @param balance - The balances
+ * @returns e.g. "0.0123 ETH"
+ */
+export function formatNative(balance: WalletBalance): string {
+  return `${formatUnits(balance.native, balance.nativeDecimals)} ${balance.nativeSymbol}`;
+}
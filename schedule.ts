@@ -0,0 +1,364 @@
+import minimist from "minimist";
+import { assertNotShellDollarAmount, parseAmount } from "./amount.js";
+import { resolvePaymentTarget } from "./addressbook.js";
+import {
+  CATCH_UP_RULES,
+  CatchUpRule,
+  Schedule,
+  ScheduleRun,
+  addSchedule,
+  listSchedules,
+  lockSchedules,
+  nextDue,
+  removeSchedule,
+  runDueSchedules,
+  runScheduleNow,
+  schedulesPath,
+} from "./schedules.js";
+import { loadEnvFile, resolveProfile, validateSetting } from "./profiles.js";
+import { print, printError, setOutputFormat, emitResult } from "./output.js";
+
+/**
+ * Print usage for the schedule command
+ *
+ * @param log - Output function (stdout for --help, stderr for errors)
+ */
+function printUsage(log: (message: string) => void): void {
+  log("Usage: snackmoney schedule <command> [options]");
+  log("\nCommands:");
+  log(
+    "  add <name> <platform/receiver> <amount> --cron <expr> | --every <interval>",
+  );
+  log("                          Pay one receiver on a schedule");
+  log("  add <name> --batch <input> --cron <expr> | --every <interval>");
+  log(
+    "                          Pay a batch file, URL or list on a schedule (as batch-send)",
+  );
+  log("  list                    Show jobs and when they run next");
+  log("  remove <name>           Delete a job");
+  log(
+    "  run [name]              Run every due job once (for the system crontab), or one job now",
+  );
+  log(
+    "  daemon                  Keep running and execute jobs when they are due",
+  );
+  log("\nOptions for add:");
+  log(
+    '  --cron <expr>           Cron expression in local time, e.g. "0 9 * * mon" or @daily',
+  );
+  log("  --every <interval>      Fixed interval: 30m, 12h, 1d, 2w, ...");
+  log(
+    "  --start <date>          First run at this time (ISO 8601; default: one interval from now, or the next cron match)",
+  );
+  log(
+    `  --catch-up <rule>       Missed runs: ${CATCH_UP_RULES.join(", ")} (default: once)`,
+  );
+  log(
+    "                          skip drops runs more than 15 minutes late, once runs one of them,",
+  );
+  log("                          all runs each of them (at most 10)");
+  log("  --memo <text>           Payment description (single payments)");
+  log("  --network <network>     Network to pay on");
+  log("  --wallet <name>         Saved wallet to sign with");
+  log("  --profile <name>        Profile the job runs with");
+  log("\nOptions:");
+  log(
+    "  --poll <seconds>        How often the daemon checks for new jobs (default: 60)",
+  );
+  log("  --output <format>       text (default), plain or json");
+  log("\nExamples:");
+  log(
+    '  snackmoney schedule add tip-toly farcaster.xyz/toly 50¢ --cron "0 9 * * mon"',
+  );
+  log(
+    "  snackmoney schedule add payroll --batch ./payroll.csv --every 2w --catch-up all",
+  );
+  log("  snackmoney schedule list");
+  log("  snackmoney schedule daemon");
+  log("  */5 * * * * snackmoney schedule run    # from the system crontab");
+}
+
+const args = minimist(process.argv.slice(2), {
+  string: [
+    "_",
+    "cron",
+    "every",
+    "start",
+    "catch-up",
+    "batch",
+    "memo",
+    "network",
+    "wallet",
+    "profile",
+    "poll",
+    "output",
+  ],
+  boolean: ["help"],
+  alias: { o: "output", h: "help" },
+});
+
+const [command, ...params] = args._;
+
+/**
+ * Describe when a job runs
+ *
+ * @param schedule - The job
+ * @returns e.g. "every 7d" or "cron 0 9 * * mon"
+ */
+function describeTiming(schedule: Schedule): string {
+  return schedule.cron ? `cron ${schedule.cron}` : `every ${schedule.every}`;
+}
+
+/**
+ * Describe what a job pays
+ *
+ * @param schedule - The job
+ * @returns e.g. "50¢ to farcaster.xyz/toly" or "batch ./payroll.csv"
+ */
+function describePayment(schedule: Schedule): string {
+  return schedule.batch
+    ? `batch ${schedule.batch}`
+    : `${schedule.amount} to ${schedule.target}`;
+}
+
+/**
+ * Format a time for display, in local time
+ *
+ * @param iso - The time as an ISO string
+ * @returns e.g. "2025-01-31 09:00"
+ */
+function formatTime(iso: string): string {
+  const date = new Date(iso);
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())} ${pad(date.getHours())}:${pad(date.getMinutes())}`;
+}
+
+/**
+ * Print the outcome of one job run
+ *
+ * @param run - The outcome
+ */
+function printRun(run: ScheduleRun): void {
+  const icon = { success: "✅", failed: "❌", skipped: "⏭️ " }[run.status];
+  const paid = run.payments.filter((p) => p.status === "success").length;
+  print(
+    `${icon} ${run.name} (due ${formatTime(run.scheduledFor)}): ${run.status}${run.status === "success" ? `, ${paid} payment${paid === 1 ? "" : "s"}` : ""}`,
+  );
+  if (run.error) {
+    print(`   ⚠️  ${run.error}`);
+  }
+}
+
+/**
+ * Check the add options and save the job
+ *
+ * @returns The saved job
+ */
+function add(): Schedule {
+  const [name, target, amount] = params;
+  if (target !== undefined) {
+    resolvePaymentTarget(target);
+    // The job runs send with this amount, which refuses "$1"
+    assertNotShellDollarAmount(amount ?? "");
+    parseAmount(amount ?? "");
+  }
+  if (args.network) {
+    validateSetting("network", args.network);
+  }
+  if (args.wallet) {
+    validateSetting("wallet", args.wallet);
+  }
+  if (args.profile) {
+    resolveProfile(args.profile);
+  }
+
+  let start: Date | undefined;
+  if (args.start) {
+    start = new Date(args.start);
+    if (isNaN(start.getTime())) {
+      throw new Error(
+        `Invalid start: ${args.start}. Use ISO 8601, e.g. 2025-01-31T09:00`,
+      );
+    }
+  }
+
+  return addSchedule(
+    {
+      name,
+      target,
+      amount,
+      batch: args.batch,
+      cron: args.cron,
+      every: args.every,
+      catchUp: args["catch-up"] as CatchUpRule | undefined,
+      memo: args.memo,
+      network: args.network,
+      wallet: args.wallet,
+      profile: args.profile,
+    },
+    start,
+  );
+}
+
+/**
+ * Run due jobs until interrupted
+ */
+async function daemon(): Promise<void> {
+  const poll = Number(args.poll ?? 60);
+  if (!Number.isFinite(poll) || poll <= 0) {
+    throw new Error(`Invalid poll interval: ${args.poll}`);
+  }
+
+  const release = lockSchedules();
+  let stopping = false;
+  let wake: () => void = () => {};
+  const stop = () => {
+    if (!stopping) {
+      print("\n👋 Stopping after the current job");
+    }
+    stopping = true;
+    wake();
+  };
+  process.on("SIGINT", stop);
+  process.on("SIGTERM", stop);
+
+  print(`⏰ Schedule daemon running (pid ${process.pid})`);
+  print(`   Jobs: ${schedulesPath()}`);
+  try {
+    while (!stopping) {
+      await runDueSchedules(printRun);
+
+      // Sleep until the next job is due, checking regularly for new jobs
+      const next = nextDue();
+      const delay = Math.min(
+        poll * 1000,
+        next ? Math.max(next.getTime() - Date.now(), 0) : Infinity,
+      );
+      await new Promise<void>((resolve) => {
+        const timer = setTimeout(resolve, delay);
+        wake = () => {
+          clearTimeout(timer);
+          resolve();
+        };
+      });
+    }
+  } finally {
+    release();
+  }
+}
+
+/**
+ * Run the schedule subcommand
+ */
+async function main(): Promise<void> {
+  switch (command) {
+    case "add": {
+      const schedule = add();
+      print(
+        `✅ Scheduled ${schedule.name}: ${describePayment(schedule)}, ${describeTiming(schedule)}`,
+      );
+      print(`   Next run: ${formatTime(schedule.nextRun)}`);
+      print(
+        "   Jobs run while `snackmoney schedule daemon` is running, or on each `snackmoney schedule run`",
+      );
+      emitResult({ command: "schedule", schedules: [schedule], payments: [] });
+      break;
+    }
+
+    case "list": {
+      const schedules = listSchedules();
+      if (schedules.length === 0) {
+        print(
+          "No scheduled payments. Add one with: snackmoney schedule add <name> <platform/receiver> <amount> --every <interval>",
+        );
+      } else {
+        print(`⏰ Scheduled payments in ${schedulesPath()}:\n`);
+      }
+      for (const schedule of schedules) {
+        print(`   ${schedule.name}`);
+        print(
+          `      ${describePayment(schedule)}, ${describeTiming(schedule)}`,
+        );
+        print(
+          `      Next run: ${formatTime(schedule.nextRun)} | Catch-up: ${schedule.catchUp}`,
+        );
+        if (schedule.lastRun || schedule.lastStatus) {
+          print(
+            `      Last run: ${schedule.lastRun ? formatTime(schedule.lastRun) : "never"} (${schedule.lastStatus})${schedule.lastError ? ` - ${schedule.lastError}` : ""}`,
+          );
+        }
+      }
+      emitResult({ command: "schedule", schedules, payments: [] });
+      break;
+    }
+
+    case "remove": {
+      const schedule = removeSchedule(params[0]);
+      print(`✅ Removed ${schedule.name}`);
+      break;
+    }
+
+    case "run": {
+      const release = lockSchedules();
+      let runs: ScheduleRun[];
+      try {
+        runs = params[0]
+          ? [await runScheduleNow(params[0])]
+          : await runDueSchedules(printRun);
+      } finally {
+        release();
+      }
+      if (params[0]) {
+        printRun(runs[0]);
+      } else if (runs.length === 0) {
+        print("No jobs are due");
+      }
+      emitResult({
+        command: "schedule",
+        runs,
+        payments: runs.flatMap((run) => run.payments),
+      });
+      if (runs.some((run) => run.status === "failed")) {
+        process.exit(1);
+      }
+      break;
+    }
+
+    case "daemon":
+      await daemon();
+      break;
+  }
+}
+
+if (args.help) {
+  printUsage(console.log);
+  process.exit(0);
+}
+
+try {
+  // Only read the profile's output format: exporting its settings would
+  // override the profiles the jobs themselves run with
+  loadEnvFile();
+  setOutputFormat(args.output || resolveProfile().profile.output);
+} catch (error: unknown) {
+  printError(`❌ ${(error as Error).message}`);
+  process.exit(1);
+}
+
+const required: Record<string, number> = {
+  add: 1,
+  list: 0,
+  remove: 1,
+  run: 0,
+  daemon: 0,
+};
+
+if (!(command in required) || params.length < required[command]) {
+  printUsage(console.error);
+  process.exit(1);
+}
+
+main().catch((error: unknown) => {
+  printError(`❌ ${(error as Error).message}`);
+  process.exit(1);
+});
@@ -0,0 +1,583 @@
+/**
+ * Scheduled and recurring payments
+ *
+ * Jobs are stored in ~/.snackmoney/schedules.json. Each job pays a single
+ * target (like send) or a batch file (like batch-send) on a cron expression
+ * or a fixed interval. Due jobs are run by `schedule run` (e.g. from the
+ * system crontab) or by the long-running `schedule daemon`; both run the send
+ * and batch-send commands in a child process, so scheduled payments go
+ * through the same policy checks and land in the same history, tagged with
+ * the job name.
+ */
+
+import {
+  existsSync,
+  mkdirSync,
+  readFileSync,
+  renameSync,
+  unlinkSync,
+  writeFileSync,
+} from "fs";
+import { spawn } from "child_process";
+import { extname, join, resolve } from "path";
+import { fileURLToPath } from "url";
+import { stateDir } from "./ledger.js";
+import { nextCronRun, parseCron, parseInterval } from "./cron.js";
+import { PaymentRecord } from "./output.js";
+
+/**
+ * What to do with runs missed while no daemon was running
+ *
+ * skip - drop missed runs; run only if one is less than CATCH_UP_GRACE_MS old
+ * once - run the first missed run, however many were missed
+ * all  - run once per missed run, at most MAX_CATCH_UP times; later ones
+ *        are dropped
+ */
+export type CatchUpRule = "skip" | "once" | "all";
+
+export const CATCH_UP_RULES: CatchUpRule[] = ["skip", "once", "all"];
+
+/** Outcome of a job's last run */
+export type ScheduleStatus = "success" | "failed" | "skipped";
+
+export interface Schedule {
+  /** Unique job name, also used in batch ids and history */
+  name: string;
+  createdAt: string;
+  /** Single payment target, e.g. x/jessepollak or @toly */
+  target?: string;
+  /** Amount for a single payment, as given, e.g. 50¢ */
+  amount?: string;
+  /** Batch input for batch-send: a file path, URL or inline list */
+  batch?: string;
+  /** Five-field cron expression */
+  cron?: string;
+  /** Fixed interval, e.g. 7d */
+  every?: string;
+  catchUp: CatchUpRule;
+  memo?: string;
+  network?: string;
+  wallet?: string;
+  profile?: string;
+  /** Next time the job is due */
+  nextRun: string;
+  lastRun?: string;
+  lastStatus?: ScheduleStatus;
+  lastError?: string;
+}
+
+export interface ScheduleRun {
+  name: string;
+  /** The occurrence being run */
+  scheduledFor: string;
+  status: ScheduleStatus;
+  error?: string;
+  /** Payments reported by the command */
+  payments: PaymentRecord[];
+}
+
+/** How late a missed run may still start under the "skip" rule */
+export const CATCH_UP_GRACE_MS = 15 * 60 * 1000;
+
+/** Most runs made at once to catch up under the "all" rule */
+export const MAX_CATCH_UP = 10;
+
+/**
+ * Path of the schedules file
+ *
+ * @returns The schedules path
+ */
+export function schedulesPath(): string {
+  return join(stateDir(), "schedules.json");
+}
+
+/**
+ * Path of the lock file held while jobs are being run
+ *
+ * @returns The lock path
+ */
+function lockPath(): string {
+  return join(stateDir(), "schedules.lock");
+}
+
+/**
+ * Read every saved job
+ *
+ * @returns The jobs, sorted by name
+ */
+export function listSchedules(): Schedule[] {
+  const path = schedulesPath();
+  if (!existsSync(path)) {
+    return [];
+  }
+  try {
+    const data = JSON.parse(readFileSync(path, "utf-8"));
+    if (!Array.isArray(data.schedules)) {
+      throw new Error('expected a "schedules" array');
+    }
+    return data.schedules;
+  } catch (error: unknown) {
+    throw new Error(
+      `Invalid schedules file ${path}: ${(error as Error).message}`,
+    );
+  }
+}
+
+/**
+ * Replace the saved jobs
+ *
+ * @param schedules - The jobs to keep
+ */
+export function saveSchedules(schedules: Schedule[]): void {
+  const path = schedulesPath();
+  const sorted = [...schedules].sort((a, b) => a.name.localeCompare(b.name));
+  mkdirSync(stateDir(), { recursive: true, mode: 0o700 });
+  // Write to a temporary file first so a crash never leaves half a file
+  const temp = `${path}.tmp`;
+  writeFileSync(
+    temp,
+    `${JSON.stringify({ version: 1, schedules: sorted }, null, 2)}\n`,
+    { mode: 0o600 },
+  );
+  renameSync(temp, path);
+}
+
+/**
+ * Find a saved job
+ *
+ * @param name - The job name
+ * @returns The job
+ */
+export function getSchedule(name: string): Schedule {
+  const schedule = listSchedules().find((s) => s.name === name);
+  if (!schedule) {
+    throw new Error(`Unknown schedule: ${name}`);
+  }
+  return schedule;
+}
+
+/**
+ * Next time a job is due after a given time, keeping an interval job's rhythm
+ *
+ * @param schedule - The job's cron expression or interval
+ * @param schedule.cron - Cron expression
+ * @param schedule.every - Interval
+ * @param schedule.nextRun - The job's next run, which intervals count from
+ * @param after - The time to search from (exclusive)
+ * @returns The next run
+ */
+export function nextRunAfter(
+  schedule: Pick<Schedule, "cron" | "every" | "nextRun">,
+  after: Date,
+): Date {
+  if (schedule.cron) {
+    return nextCronRun(parseCron(schedule.cron), after);
+  }
+  if (schedule.every) {
+    const interval = parseInterval(schedule.every);
+    const start = new Date(schedule.nextRun).getTime();
+    const passed = Math.floor((after.getTime() - start) / interval) + 1;
+    return new Date(start + Math.max(passed, 0) * interval);
+  }
+  throw new Error("A schedule needs a cron expression or an interval");
+}
+
+/**
+ * The first occurrences of a job from its next run up to a time
+ *
+ * @param schedule - The job
+ * @param now - The current time
+ * @param limit - Most occurrences to return
+ * @returns The due occurrences, oldest first; empty when the job is not due
+ */
+export function dueRuns(schedule: Schedule, now: Date, limit: number): Date[] {
+  const runs: Date[] = [];
+  for (
+    let run = new Date(schedule.nextRun);
+    run <= now && runs.length < limit;
+    run = nextRunAfter(schedule, run)
+  ) {
+    runs.push(run);
+  }
+  return runs;
+}
+
+/**
+ * Apply a job's catch-up rule to its due occurrences, without walking
+ * through every missed one
+ *
+ * @param schedule - The job
+ * @param now - The current time
+ * @returns The occurrences to run now
+ */
+export function runsToMake(schedule: Schedule, now: Date): Date[] {
+  switch (schedule.catchUp) {
+    case "all":
+      return dueRuns(schedule, now, MAX_CATCH_UP);
+    case "skip": {
+      const from = Math.max(
+        now.getTime() - CATCH_UP_GRACE_MS,
+        new Date(schedule.nextRun).getTime(),
+      );
+      const recent = nextRunAfter(schedule, new Date(from - 1));
+      return recent <= now ? [recent] : [];
+    }
+    default:
+      return dueRuns(schedule, now, 1);
+  }
+}
+
+/**
+ * Check a job name
+ *
+ * @param name - The job name
+ * @returns The name
+ */
+function validateName(name: string): string {
+  if (!/^[a-zA-Z0-9][\w.-]{0,63}$/.test(name ?? "")) {
+    throw new Error(
+      `Invalid schedule name: ${name}. Use letters, digits, "_", "-" and "." (max 64 characters)`,
+    );
+  }
+  return name;
+}
+
+/**
+ * Save a new job
+ *
+ * @param fields - The job, without its bookkeeping fields
+ * @param start - Time of the first run, which may be in the past (default:
+ *   one interval from now, or the next cron match)
+ * @returns The saved job
+ */
+export function addSchedule(
+  fields: Omit<Schedule, "createdAt" | "nextRun" | "catchUp"> & {
+    catchUp?: CatchUpRule;
+  },
+  start?: Date,
+): Schedule {
+  validateName(fields.name);
+  if (!fields.cron === !fields.every) {
+    throw new Error("Give either --cron or --every");
+  }
+  if (!fields.batch === !fields.target) {
+    throw new Error("Give either a target and amount, or --batch");
+  }
+  if (fields.target && !fields.amount) {
+    throw new Error("A single payment needs an amount");
+  }
+  const catchUp = fields.catchUp ?? "once";
+  if (!CATCH_UP_RULES.includes(catchUp)) {
+    throw new Error(
+      `Invalid catch-up rule: ${catchUp}. Use ${CATCH_UP_RULES.join(", ")}`,
+    );
+  }
+
+  const schedules = listSchedules();
+  if (schedules.some((s) => s.name === fields.name)) {
+    throw new Error(`Schedule ${fields.name} already exists`);
+  }
+
+  // Intervals first run at the start time; cron expressions fire at their
+  // first match from it. A start in the past is left to the catch-up rule.
+  const now = new Date();
+  const nextRun = fields.every
+    ? (start ?? new Date(now.getTime() + parseInterval(fields.every)))
+    : nextCronRun(
+        parseCron(fields.cron!),
+        new Date((start ?? now).getTime() - 1),
+      );
+
+  const schedule: Schedule = {
+    ...fields,
+    // Batch files are read when the job runs, possibly from another directory
+    batch:
+      fields.batch && existsSync(fields.batch)
+        ? resolve(fields.batch)
+        : fields.batch,
+    catchUp,
+    createdAt: now.toISOString(),
+    nextRun: nextRun.toISOString(),
+  };
+  saveSchedules([...schedules, schedule]);
+  return schedule;
+}
+
+/**
+ * Delete a job
+ *
+ * @param name - The job name
+ * @returns The removed job
+ */
+export function removeSchedule(name: string): Schedule {
+  const schedules = listSchedules();
+  const schedule = schedules.find((s) => s.name === name);
+  if (!schedule) {
+    throw new Error(`Unknown schedule: ${name}`);
+  }
+  saveSchedules(schedules.filter((s) => s !== schedule));
+  return schedule;
+}
+
+/**
+ * Update one saved job
+ *
+ * @param name - The job name
+ * @param update - Fields to change
+ */
+function updateSchedule(name: string, update: Partial<Schedule>): void {
+  saveSchedules(
+    listSchedules().map((s) => (s.name === name ? { ...s, ...update } : s)),
+  );
+}
+
+/**
+ * Whether a process is still running
+ *
+ * @param pid - The process id
+ * @returns True when it exists
+ */
+function isRunning(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (error: unknown) {
+    return (error as NodeJS.ErrnoException).code === "EPERM";
+  }
+}
+
+/**
+ * Take the lock that keeps two runners from paying the same job twice
+ *
+ * A lock left behind by a process that no longer runs is taken over.
+ *
+ * @returns A function releasing the lock
+ */
+export function lockSchedules(): () => void {
+  const path = lockPath();
+  mkdirSync(stateDir(), { recursive: true, mode: 0o700 });
+  for (let attempt = 0; attempt < 2; attempt++) {
+    try {
+      writeFileSync(path, String(process.pid), { flag: "wx", mode: 0o600 });
+      return () => {
+        try {
+          unlinkSync(path);
+        } catch {
+          // Already gone
+        }
+      };
+    } catch (error: unknown) {
+      if ((error as NodeJS.ErrnoException).code !== "EEXIST") {
+        throw error;
+      }
+      const pid = Number(readFileSync(path, "utf-8"));
+      if (pid && isRunning(pid)) {
+        throw new Error(
+          `Scheduled jobs are already being run by process ${pid} (lock: ${path})`,
+        );
+      }
+      unlinkSync(path);
+    }
+  }
+  throw new Error(`Could not take the schedule lock ${path}`);
+}
+
+/**
+ * Path of a sibling command script, matching how this module is run (.ts
+ * under tsx, .js when built)
+ *
+ * @param name - The command module name without extension, e.g. send
+ * @returns The script path
+ */
+function commandScript(name: string): string {
+  const self = fileURLToPath(import.meta.url);
+  return join(self, "..", `${name}${extname(self)}`);
+}
+
+/**
+ * Command-line arguments running one occurrence of a job
+ *
+ * @param schedule - The job
+ * @param scheduledFor - The occurrence
+ * @returns The script and its arguments
+ */
+function commandArgs(schedule: Schedule, scheduledFor: Date): string[] {
+  const options = ["--yes", "--output", "json"];
+  for (const key of ["network", "wallet", "profile"] as const) {
+    if (schedule[key]) {
+      options.push(`--${key}`, schedule[key]!);
+    }
+  }
+
+  if (schedule.batch) {
+    // One batch state per occurrence, down to the millisecond since
+    // catch-ups and manual runs can fall in the same minute; --force because
+    // the same payout list is paid on purpose every time
+    const stamp = scheduledFor
+      .toISOString()
+      .replace(/[-:.]/g, "")
+      .replace("T", "-")
+      .slice(0, 18);
+    return [
+      commandScript("batch_send"),
+      schedule.batch,
+      ...options,
+      "--force",
+      "--batch-id",
+      `${schedule.name}-${stamp}`,
+    ];
+  }
+
+  if (schedule.memo) {
+    options.push("--memo", schedule.memo);
+  }
+  return [
+    commandScript("send"),
+    schedule.target!,
+    schedule.amount!,
+    ...options,
+  ];
+}
+
+/**
+ * Run one occurrence of a job in a child process
+ *
+ * @param schedule - The job
+ * @param scheduledFor - The occurrence
+ * @returns The outcome
+ */
+function execute(schedule: Schedule, scheduledFor: Date): Promise<ScheduleRun> {
+  return new Promise((done) => {
+    const child = spawn(
+      process.execPath,
+      [...process.execArgv, ...commandArgs(schedule, scheduledFor)],
+      {
+        stdio: ["ignore", "pipe", "pipe"],
+        env: { ...process.env, SNACKMONEY_SCHEDULE: schedule.name },
+      },
+    );
+    let stdout = "";
+    let stderr = "";
+    child.stdout.on("data", (chunk) => (stdout += chunk));
+    child.stderr.on("data", (chunk) => (stderr += chunk));
+
+    const finish = (code: number | null, failure?: string) => {
+      let result: unknown;
+      try {
+        result = JSON.parse(stdout);
+      } catch {
+        result = undefined;
+      }
+      const { error, payments } =
+        typeof result === "object" && result !== null
+          ? (result as Record<string, unknown>)
+          : {};
+      const message =
+        typeof error === "object" && error !== null
+          ? (error as Record<string, unknown>).message
+          : undefined;
+      const lastError = stderr
+        .split("\n")
+        .map((line) => line.trim())
+        .filter((line) => line.startsWith("❌"))
+        .pop();
+      done({
+        name: schedule.name,
+        scheduledFor: scheduledFor.toISOString(),
+        status: code === 0 ? "success" : "failed",
+        error:
+          code === 0
+            ? undefined
+            : failure ||
+              (typeof message === "string" && message) ||
+              lastError?.replace(/^❌\s*/, "") ||
+              `exited with code ${code}`,
+        payments: Array.isArray(payments) ? payments : [],
+      });
+    };
+    child.on("error", (error) => finish(null, error.message));
+    child.on("close", (code) => finish(code));
+  });
+}
+
+/**
+ * Run one job now, outside its schedule
+ *
+ * @param name - The job name
+ * @returns The outcome
+ */
+export async function runScheduleNow(name: string): Promise<ScheduleRun> {
+  const schedule = getSchedule(name);
+  const run = await execute(schedule, new Date());
+  updateSchedule(name, {
+    lastRun: run.scheduledFor,
+    lastStatus: run.status,
+    lastError: run.error,
+  });
+  return run;
+}
+
+/**
+ * Run every due job, applying each job's catch-up rule
+ *
+ * The next run is saved before paying, so a crash mid-run never pays the
+ * same occurrence twice.
+ *
+ * @param onRun - Called after each occurrence is run
+ * @param now - The current time
+ * @returns The outcomes, including skipped occurrences
+ */
+export async function runDueSchedules(
+  onRun: (run: ScheduleRun) => void = () => {},
+  now = new Date(),
+): Promise<ScheduleRun[]> {
+  const outcomes: ScheduleRun[] = [];
+  for (const schedule of listSchedules()) {
+    if (new Date(schedule.nextRun) > now) {
+      continue;
+    }
+    const runs = runsToMake(schedule, now);
+    updateSchedule(schedule.name, {
+      // Keep the job's rhythm: the first occurrence after the missed ones
+      nextRun: nextRunAfter(schedule, now).toISOString(),
+      ...(runs.length === 0 && {
+        lastStatus: "skipped",
+        lastError: `Missed every run since ${schedule.nextRun}`,
+      }),
+    });
+    if (runs.length === 0) {
+      const run: ScheduleRun = {
+        name: schedule.name,
+        scheduledFor: schedule.nextRun,
+        status: "skipped",
+        error: `missed every run since ${schedule.nextRun} (catch-up rule: skip)`,
+        payments: [],
+      };
+      outcomes.push(run);
+      onRun(run);
+      continue;
+    }
+
+    for (const scheduledFor of runs) {
+      const run = await execute(schedule, scheduledFor);
+      updateSchedule(schedule.name, {
+        lastRun: new Date().toISOString(),
+        lastStatus: run.status,
+        lastError: run.error,
+      });
+      outcomes.push(run);
+      onRun(run);
+    }
+  }
+  return outcomes;
+}
+
+/**
+ * When the next job is due
+ *
+ * @returns The earliest next run, if any job is saved
+ */
+export function nextDue(): Date | undefined {
+  const times = listSchedules().map((s) => new Date(s.nextRun).getTime());
+  return times.length ? new Date(Math.min(...times)) : undefined;
+}
@@ -0,0 +1,286 @@
+/**
+ * Offline checks of signed x402 payments
+ *
+ * Used by the dev server to accept or reject the payment a client signed,
+ * without a facilitator: the payload has to match the payment option it was
+ * signed for and carry a valid signature from the payer, but nothing is
+ * simulated or settled on chain, so test wallets need no funds. Rejections
+ * use the reason codes of the x402 facilitators.
+ */
+
+import { PaymentPayload, PaymentRequirements } from "@x402/axios";
+import { getAddress, Hex, isAddressEqual, verifyTypedData } from "viem";
+import {
+  ExactEvmPayloadV2,
+  authorizationTypes,
+  isEIP3009Payload,
+} from "@x402/evm";
+import {
+  ExactSvmPayloadV2,
+  TOKEN_2022_PROGRAM_ADDRESS,
+  TOKEN_PROGRAM_ADDRESS,
+  decodeTransactionFromPayload,
+} from "@x402/svm";
+import {
+  Address,
+  address,
+  decompileTransactionMessage,
+  getAddressEncoder,
+  getCompiledTransactionMessageDecoder,
+  getProgramDerivedAddress,
+  getPublicKeyFromAddress,
+  verifySignature,
+} from "@solana/kit";
+import bs58 from "bs58";
+import { getNetwork } from "./networks.js";
+
+/** Program owning associated token accounts */
+const ASSOCIATED_TOKEN_PROGRAM_ADDRESS =
+  "ATokenGPvbdGVxr1b2hvZbsiqW5xWH25efTNsLJA8knL";
+
+/** First data byte of an SPL token TransferChecked instruction */
+const TRANSFER_CHECKED = 12;
+
+/**
+ * Authorizations whose validBefore is closer than this are rejected, since
+ * they could expire before settlement
+ */
+const VALIDITY_MARGIN_SECONDS = 6;
+
+export interface PayloadCheck {
+  valid: boolean;
+  /** Why the payment was rejected */
+  reason?: string;
+  /** Address the payment is drawn from */
+  payer?: string;
+  /**
+   * Identifies the signed transfer, so the same payment cannot be used twice:
+   * the EIP-3009 nonce or the payer's Solana signature
+   */
+  nonce?: string;
+}
+
+/**
+ * Check a signed payment against the payment option it was made for
+ *
+ * @param payload - The decoded payment-signature header
+ * @param requirements - The payment option the server offered
+ * @param now - Current time, for the authorization's validity window
+ * @returns Whether the payment can be accepted, and who pays
+ */
+export async function checkPaymentPayload(
+  payload: PaymentPayload,
+  requirements: PaymentRequirements,
+  now = Date.now(),
+): Promise<PayloadCheck> {
+  const { accepted } = payload;
+  if (payload.x402Version !== 2 || !accepted) {
+    return { valid: false, reason: "invalid_x402_version" };
+  }
+  if (accepted.scheme !== "exact" || requirements.scheme !== "exact") {
+    return { valid: false, reason: "unsupported_scheme" };
+  }
+  if (accepted.network !== requirements.network) {
+    return { valid: false, reason: "network_mismatch" };
+  }
+  if (
+    accepted.asset !== requirements.asset ||
+    accepted.payTo !== requirements.payTo ||
+    accepted.amount !== requirements.amount
+  ) {
+    return { valid: false, reason: "payment_requirements_mismatch" };
+  }
+
+  return getNetwork(requirements.network).family === "svm"
+    ? checkSvmPayload(payload.payload as ExactSvmPayloadV2, requirements)
+    : checkEvmPayload(payload.payload as ExactEvmPayloadV2, requirements, now);
+}
+
+/**
+ * Check an EIP-3009 transferWithAuthorization signed by an EVM account
+ *
+ * Only plain account signatures are recognized: smart wallet signatures
+ * would need the chain to check.
+ *
+ * @param payload - The exact EVM payload
+ * @param requirements - The payment option
+ * @param now - Current time
+ * @returns The outcome
+ */
+async function checkEvmPayload(
+  payload: ExactEvmPayloadV2,
+  requirements: PaymentRequirements,
+  now: number,
+): Promise<PayloadCheck> {
+  if (!isEIP3009Payload(payload) || !payload.signature) {
+    return { valid: false, reason: "unsupported_asset_transfer_method" };
+  }
+  const { authorization, signature } = payload;
+  const payer = authorization.from;
+  const reject = (reason: string): PayloadCheck => ({
+    valid: false,
+    reason,
+    payer,
+  });
+
+  const { name, version } = requirements.extra ?? {};
+  if (typeof name !== "string" || typeof version !== "string") {
+    return reject("invalid_exact_evm_missing_eip712_domain");
+  }
+
+  let signed = false;
+  try {
+    signed = await verifyTypedData({
+      address: authorization.from,
+      domain: {
+        name,
+        version,
+        chainId: Number(requirements.network.split(":")[1]),
+        verifyingContract: getAddress(requirements.asset),
+      },
+      types: authorizationTypes,
+      primaryType: "TransferWithAuthorization",
+      message: {
+        from: authorization.from,
+        to: authorization.to,
+        value: BigInt(authorization.value),
+        validAfter: BigInt(authorization.validAfter),
+        validBefore: BigInt(authorization.validBefore),
+        nonce: authorization.nonce as Hex,
+      },
+      signature,
+    });
+  } catch {
+    signed = false;
+  }
+  if (!signed) {
+    return reject("invalid_exact_evm_signature");
+  }
+
+  const seconds = BigInt(Math.floor(now / 1000));
+  if (!isAddressEqual(authorization.to, getAddress(requirements.payTo))) {
+    return reject("invalid_exact_evm_recipient_mismatch");
+  }
+  if (
+    BigInt(authorization.validBefore) <
+    seconds + BigInt(VALIDITY_MARGIN_SECONDS)
+  ) {
+    return reject("invalid_exact_evm_payload_authorization_valid_before");
+  }
+  if (BigInt(authorization.validAfter) > seconds) {
+    return reject("invalid_exact_evm_payload_authorization_valid_after");
+  }
+  if (BigInt(authorization.value) !== BigInt(requirements.amount)) {
+    return reject("invalid_exact_evm_authorization_value");
+  }
+
+  return {
+    valid: true,
+    payer,
+    nonce: `${payer.toLowerCase()}:${authorization.nonce}`,
+  };
+}
+
+/**
+ * Check a partially signed Solana transaction: a TransferChecked of the
+ * asset to payTo's associated token account, signed by its authority, with
+ * the server's fee payer left to sign
+ *
+ * @param payload - The exact SVM payload
+ * @param requirements - The payment option
+ * @returns The outcome
+ */
+async function checkSvmPayload(
+  payload: ExactSvmPayloadV2,
+  requirements: PaymentRequirements,
+): Promise<PayloadCheck> {
+  const feePayer = requirements.extra?.feePayer;
+  let transaction;
+  let message;
+  try {
+    transaction = decodeTransactionFromPayload(payload);
+    message = decompileTransactionMessage(
+      getCompiledTransactionMessageDecoder().decode(transaction.messageBytes),
+    );
+  } catch {
+    return {
+      valid: false,
+      reason: "invalid_exact_svm_payload_transaction_could_not_be_decoded",
+    };
+  }
+  if (message.feePayer.address !== feePayer) {
+    return { valid: false, reason: "invalid_exact_svm_payload_fee_payer" };
+  }
+
+  const tokenPrograms: string[] = [
+    TOKEN_PROGRAM_ADDRESS,
+    TOKEN_2022_PROGRAM_ADDRESS,
+  ];
+  const transfer = message.instructions.find(
+    (instruction) =>
+      tokenPrograms.includes(instruction.programAddress) &&
+      instruction.data?.[0] === TRANSFER_CHECKED,
+  );
+  if (
+    !transfer?.data ||
+    transfer.data.length < 10 ||
+    (transfer.accounts?.length ?? 0) < 4
+  ) {
+    return {
+      valid: false,
+      reason: "invalid_exact_svm_payload_no_transfer_instruction",
+    };
+  }
+  const [, mint, destination, authority] = transfer.accounts!.map(
+    (account) => account.address,
+  );
+  const payer = authority;
+  const reject = (reason: string): PayloadCheck => ({
+    valid: false,
+    reason,
+    payer,
+  });
+
+  if (authority === feePayer) {
+    return reject(
+      "invalid_exact_svm_payload_transaction_fee_payer_transferring_funds",
+    );
+  }
+  if (mint !== requirements.asset) {
+    return reject("invalid_exact_svm_payload_mint_mismatch");
+  }
+  const encoder = getAddressEncoder();
+  const [associatedTokenAccount] = await getProgramDerivedAddress({
+    programAddress: address(ASSOCIATED_TOKEN_PROGRAM_ADDRESS),
+    seeds: [
+      encoder.encode(address(requirements.payTo)),
+      encoder.encode(transfer.programAddress),
+      encoder.encode(address(requirements.asset)),
+    ],
+  });
+  if (destination !== associatedTokenAccount) {
+    return reject("invalid_exact_svm_payload_recipient_mismatch");
+  }
+  const data = transfer.data;
+  const amount = new DataView(data.buffer, data.byteOffset + 1, 8).getBigUint64(
+    0,
+    true,
+  );
+  if (amount !== BigInt(requirements.amount)) {
+    return reject("invalid_exact_svm_payload_amount_mismatch");
+  }
+
+  const signature = transaction.signatures[authority as Address];
+  if (
+    !signature ||
+    !(await verifySignature(
+      await getPublicKeyFromAddress(authority),
+      signature,
+      transaction.messageBytes,
+    ))
+  ) {
+    return reject("invalid_exact_svm_payload_signature");
+  }
+
+  return { valid: true, payer, nonce: bs58.encode(signature) };
+}
@@ -0,0 +1,77 @@
+/**
+ * Concurrency and rate limits for outgoing requests
+ *
+ * Used to spread a large batch payout over many batch-pay requests without
+ * overwhelming the API.
+ */
+
+const RATE_UNITS_MS: Record<string, number> = {
+  s: 1000,
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+};
+
+export interface ThrottleOptions {
+  /** Tasks running at the same time (default 1) */
+  concurrency?: number;
+  /** Shortest time between two task starts, in milliseconds */
+  spacingMs?: number;
+}
+
+/**
+ * Parse a request rate such as 2, 2/s, 30/m or 500/h
+ *
+ * @param text - The rate; a bare number is per second
+ * @returns The time between two requests in milliseconds
+ */
+export function parseRate(text: string): number {
+  const match = text
+    .trim()
+    .toLowerCase()
+    .match(/^(\d+(?:\.\d+)?)\s*(?:\/\s*(s|m|h|sec|min|hour))?$/);
+  const count = match ? Number(match[1]) : NaN;
+  if (!match || !(count > 0)) {
+    throw new Error(
+      `Invalid rate: ${text}. Use requests per second, minute or hour, e.g. 2, 30/m or 500/h`,
+    );
+  }
+  const unit = (match[2] ?? "s")[0];
+  return RATE_UNITS_MS[unit] / count;
+}
+
+/**
+ * Run tasks with at most `concurrency` in flight and starts spaced at least
+ * `spacingMs` apart; results keep the order of the tasks
+ *
+ * @param tasks - The tasks to run
+ * @param options - Limits
+ * @returns Each task's result
+ */
+export async function runThrottled<T>(
+  tasks: (() => Promise<T>)[],
+  options: ThrottleOptions = {},
+): Promise<T[]> {
+  const concurrency = Math.max(1, options.concurrency ?? 1);
+  const spacingMs = options.spacingMs ?? 0;
+  const results: T[] = new Array(tasks.length);
+  let next = 0;
+  let nextStart = Date.now();
+
+  const worker = async () => {
+    while (next < tasks.length) {
+      const index = next++;
+      // Reserve a start slot before waiting so workers never start together
+      const wait = nextStart - Date.now();
+      nextStart = Math.max(nextStart, Date.now()) + spacingMs;
+      if (wait > 0) {
+        await new Promise((resolve) => setTimeout(resolve, wait));
+      }
+      results[index] = await tasks[index]();
+    }
+  };
+
+  await Promise.all(
+    Array.from({ length: Math.min(concurrency, tasks.length) }, worker),
+  );
+  return results;
+}
@@ -0,0 +1,245 @@
+/**
+ * On-chain payment verification
+ *
+ * Checks a payment from the local ledger against the chain: looks up its
+ * settlement transaction over RPC and compares the USDC transfer with what
+ * was signed for, i.e. the token, amount, sender and payTo address.
+ */
+
+import { formatAmount, sumAmounts } from "./amount.js";
+import { LedgerEntry, ledgerPath, readLedger } from "./ledger.js";
+import { getNetwork } from "./networks.js";
+import {
+  TokenTransfer,
+  TransactionLookup,
+  fetchTransaction,
+  usdcAddress,
+} from "./rpc.js";
+
+/** The transfer the ledger says a payment should have made */
+export interface ExpectedTransfer {
+  network: string;
+  /** Transaction hash (EVM) or signature (Solana) */
+  transaction: string;
+  /** Token contract or mint */
+  token: string;
+  /** Amount in base units */
+  amount: bigint;
+  /**
+   * True when amount is the charge that was signed; entries recorded without
+   * one only know the receivers' total, which fees come on top of
+   */
+  exact: boolean;
+  sender?: string;
+  payTo?: string;
+}
+
+export interface TransferCheck {
+  name: "token" | "amount" | "sender" | "payTo";
+  expected?: string;
+  actual?: string;
+  /** Undefined when the ledger has nothing to compare with */
+  ok?: boolean;
+}
+
+export interface PaymentVerification {
+  /** The txn_id or transaction the payment was looked up by */
+  reference: string;
+  /** Ledger entries settled by the transaction, one per receiver */
+  entries: LedgerEntry[];
+  expected: ExpectedTransfer;
+  lookup: TransactionLookup;
+  /** The transfer compared with the ledger, if the transaction made any */
+  transfer?: TokenTransfer;
+  checks: TransferCheck[];
+  /** The transaction succeeded and everything the ledger records matches */
+  verified: boolean;
+}
+
+/**
+ * Compare two addresses; EVM addresses are case-insensitive
+ *
+ * @param network - The settlement network
+ * @param a - One address
+ * @param b - The other address
+ * @returns True when they are the same address
+ */
+function sameAddress(network: string, a: string, b: string): boolean {
+  return getNetwork(network).family === "evm"
+    ? a.toLowerCase() === b.toLowerCase()
+    : a === b;
+}
+
+/**
+ * Find the ledger entries of the payment settled by a transaction or carrying
+ * a txn_id
+ *
+ * @param reference - Transaction hash or signature, or Snack Money txn_id
+ * @param entries - Ledger entries to search, defaulting to the whole ledger
+ * @returns The entries sharing one settlement transaction
+ */
+export function findPaymentEntries(
+  reference: string,
+  entries: LedgerEntry[] = readLedger(),
+): LedgerEntry[] {
+  // EVM transaction hashes are hex, so their case does not matter
+  const hash = (value?: string) =>
+    value?.startsWith("0x") ? value.toLowerCase() : value;
+  const matches = entries.filter(
+    (entry) =>
+      entry.txnId === reference ||
+      (entry.transaction !== undefined &&
+        hash(entry.transaction) === hash(reference)),
+  );
+  if (matches.length === 0) {
+    throw new Error(
+      `No payment with txn_id or transaction ${reference} in ${ledgerPath()}`,
+    );
+  }
+
+  const transactions = new Set(
+    matches.flatMap((entry) => entry.transaction ?? []),
+  );
+  if (transactions.size === 0) {
+    throw new Error(
+      `Payment ${reference} has no recorded transaction hash, so it cannot be checked on chain`,
+    );
+  }
+  if (transactions.size > 1) {
+    throw new Error(
+      `${reference} matches ${transactions.size} transactions: ${[...transactions].join(", ")}. Verify one of them`,
+    );
+  }
+  const [transaction] = transactions;
+  return matches.filter((entry) => entry.transaction === transaction);
+}
+
+/**
+ * The transfer a payment's ledger entries describe
+ *
+ * @param entries - Entries sharing one settlement transaction
+ * @param network - Network to check on, defaulting to the recorded one
+ * @returns The expected transfer
+ */
+export function expectedTransfer(
+  entries: LedgerEntry[],
+  network = entries[0].network,
+): ExpectedTransfer {
+  const [entry] = entries;
+  return {
+    network,
+    transaction: entry.transaction!,
+    token: entry.asset ?? usdcAddress(network),
+    amount: entry.charged
+      ? BigInt(entry.charged)
+      : sumAmounts(entries.map((e) => BigInt(e.amount))),
+    exact: entry.charged !== undefined,
+    sender: entry.payer,
+    payTo: entry.payTo,
+  };
+}
+
+/**
+ * Pick the transfer that settled the payment: a transfer of the expected
+ * token to payTo, or else from the sender, or else the first one
+ *
+ * @param transfers - The transaction's token transfers
+ * @param expected - The expected transfer
+ * @returns The transfer to compare, if any
+ */
+function settlementTransfer(
+  transfers: TokenTransfer[],
+  expected: ExpectedTransfer,
+): TokenTransfer | undefined {
+  const same = (a: string, b?: string) =>
+    b !== undefined && sameAddress(expected.network, a, b);
+  const inToken = transfers.filter((t) => same(t.token, expected.token));
+  return (
+    inToken.find((t) => same(t.to, expected.payTo)) ||
+    inToken.find((t) => same(t.from, expected.sender)) ||
+    inToken[0] ||
+    transfers[0]
+  );
+}
+
+/**
+ * Compare an on-chain transfer with the expected one
+ *
+ * @param expected - The expected transfer
+ * @param transfer - The transfer found on chain, if any
+ * @returns One check per compared field
+ */
+export function checkTransfer(
+  expected: ExpectedTransfer,
+  transfer?: TokenTransfer,
+): TransferCheck[] {
+  const address = (
+    name: TransferCheck["name"],
+    wanted?: string,
+    actual?: string,
+  ): TransferCheck => ({
+    name,
+    expected: wanted,
+    actual,
+    ok:
+      wanted === undefined
+        ? undefined
+        : actual !== undefined && sameAddress(expected.network, wanted, actual),
+  });
+
+  return [
+    address("token", expected.token, transfer?.token),
+    {
+      name: "amount",
+      expected: formatAmount(expected.amount),
+      actual: transfer && formatAmount(transfer.amount),
+      ok:
+        transfer !== undefined &&
+        (expected.exact
+          ? transfer.amount === expected.amount
+          : transfer.amount >= expected.amount),
+    },
+    address("sender", expected.sender, transfer?.from),
+    address("payTo", expected.payTo, transfer?.to),
+  ];
+}
+
+/**
+ * Verify a ledger payment on chain
+ *
+ * @param reference - Transaction hash or signature, or Snack Money txn_id
+ * @param options - Lookup options
+ * @param options.network - Network to check on, defaulting to the recorded one
+ * @param options.rpcUrl - RPC endpoint, defaulting to the network's
+ * @returns The verification
+ */
+export async function verifyPayment(
+  reference: string,
+  options: { network?: string; rpcUrl?: string } = {},
+): Promise<PaymentVerification> {
+  const entries = findPaymentEntries(reference);
+  const expected = expectedTransfer(
+    entries,
+    options.network ? getNetwork(options.network).id : undefined,
+  );
+  const lookup = await fetchTransaction(
+    expected.network,
+    expected.transaction,
+    options.rpcUrl,
+  );
+  const transfer = settlementTransfer(lookup.transfers, expected);
+  const checks = checkTransfer(expected, transfer);
+
+  return {
+    reference,
+    entries,
+    expected,
+    lookup,
+    transfer,
+    checks,
+    verified:
+      lookup.found &&
+      lookup.succeeded &&
+      checks.every((check) => check.ok !== false),
+  };
+}
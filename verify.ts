@@ -0,0 +1,169 @@
+import minimist from "minimist";
+import { entryExplorerUrl, ledgerRecord } from "./ledger.js";
+import { getNetwork } from "./networks.js";
+import { TransferCheck, verifyPayment } from "./verification.js";
+import { TransactionLookup } from "./rpc.js";
+import { applyProfile } from "./profiles.js";
+import { print, printError, setOutputFormat, emitResult } from "./output.js";
+
+/**
+ * Print usage for the verify command
+ *
+ * @param log - Output function (stdout for --help, stderr for errors)
+ */
+function printUsage(log: (message: string) => void): void {
+  log(
+    "Usage: snackmoney verify <transaction|txn_id> [--network <network>] [--rpc <url>]",
+  );
+  log(
+    "\nLooks up a payment from the history on chain and checks that its USDC transfer matches",
+  );
+  log("what was signed for: token, amount, sender and payTo.");
+  log("\nOptions:");
+  log(
+    "  --network <network>     Network to look on (default: the one in the history)",
+  );
+  log(
+    "  --rpc <url>             RPC endpoint (default: BASE_RPC_URL / SOLANA_RPC_URL or the public endpoint)",
+  );
+  log("  --profile <name>        Use a named profile from the config file");
+  log("  --output <format>       text (default), plain or json");
+  log("\nExamples:");
+  log("  snackmoney verify 0x3f1c...9a2b");
+  log("  snackmoney verify txn_8f2k1 --rpc http://127.0.0.1:8545");
+}
+
+const args = minimist(process.argv.slice(2), {
+  string: ["_", "network", "rpc", "output", "profile"],
+  alias: { o: "output" },
+});
+
+if (args.help || args.h) {
+  printUsage(console.log);
+  process.exit(0);
+}
+
+try {
+  const profile = applyProfile(args.profile);
+  setOutputFormat(args.output || profile.output);
+  if (args.network) {
+    getNetwork(args.network);
+  }
+} catch (error: unknown) {
+  printError(`❌ ${(error as Error).message}`);
+  printUsage(console.error);
+  process.exit(1);
+}
+
+if (!args._[0]) {
+  printUsage(console.error);
+  process.exit(1);
+}
+
+const CHECK_LABELS: Record<TransferCheck["name"], string> = {
+  token: "Token:",
+  amount: "Amount:",
+  sender: "Sender:",
+  payTo: "PayTo:",
+};
+
+/**
+ * Describe where the transaction stands on chain
+ *
+ * @param lookup - The transaction lookup
+ * @returns e.g. "✅ succeeded in block 123 (12 confirmations)"
+ */
+function describeStatus(lookup: TransactionLookup): string {
+  if (!lookup.found) {
+    return "❌ not found";
+  }
+  const depth = lookup.finalized
+    ? "finalized"
+    : `${lookup.confirmations ?? 0n} confirmation${lookup.confirmations === 1n ? "" : "s"}`;
+  const where = getNetwork(lookup.network).family === "svm" ? "slot" : "block";
+  return `${lookup.succeeded ? "✅ succeeded" : "❌ failed"} in ${where} ${lookup.block} (${depth})`;
+}
+
+/**
+ * Describe one comparison with the history
+ *
+ * @param check - The comparison
+ * @returns e.g. "✅ Amount:  0.31 USDC"
+ */
+function describeCheck(check: TransferCheck): string {
+  const label = CHECK_LABELS[check.name].padEnd(7);
+  const unit = check.name === "amount" ? " USDC" : "";
+  const actual = check.actual === undefined ? "none" : `${check.actual}${unit}`;
+  if (check.ok === undefined) {
+    return `➖ ${label} ${actual} (not recorded in the history)`;
+  }
+  if (check.ok) {
+    return `✅ ${label} ${actual}`;
+  }
+  return `❌ ${label} ${actual}, expected ${check.expected}${unit}`;
+}
+
+/**
+ * Verify the payment and print the outcome
+ */
+async function main(): Promise<void> {
+  const verification = await verifyPayment(String(args._[0]), {
+    network: args.network,
+    rpcUrl: args.rpc,
+  });
+  const { entries, expected, lookup } = verification;
+  const [entry] = entries;
+
+  print(
+    `🔍 Verifying ${expected.transaction} on ${getNetwork(expected.network).name}`,
+  );
+  print(
+    `   Payment: ${entries.length === 1 ? `${entry.platform}/${entry.receiver}` : `${entries.length} receivers`}${entry.txnId ? `, txn_id ${entry.txnId}` : ""}`,
+  );
+  print(`   Status:  ${describeStatus(lookup)}`);
+  if (lookup.found) {
+    for (const check of verification.checks) {
+      print(`   ${describeCheck(check)}`);
+    }
+    if (!expected.exact) {
+      print(
+        "   ⚠️  No signed charge in the history: the amount only has to cover the receivers' total",
+      );
+    }
+  }
+  print(`   RPC:     ${lookup.rpcUrl}`);
+  const explorer = entryExplorerUrl(entry);
+  if (explorer) {
+    print(`   Explorer: ${explorer}`);
+  }
+  print(
+    verification.verified
+      ? "\n✅ Payment verified on chain"
+      : "\n❌ Payment does not match the history",
+  );
+
+  emitResult({
+    command: "verify",
+    reference: verification.reference,
+    verified: verification.verified,
+    network: expected.network,
+    transaction: expected.transaction,
+    rpcUrl: lookup.rpcUrl,
+    found: lookup.found,
+    succeeded: lookup.succeeded,
+    block: lookup.block,
+    confirmations: lookup.confirmations,
+    finalized: lookup.finalized,
+    checks: verification.checks,
+    payments: entries.map(ledgerRecord),
+  });
+
+  if (!verification.verified) {
+    process.exit(1);
+  }
+}
+
+main().catch((error: unknown) => {
+  printError(`❌ ${(error as Error).message}`);
+  process.exit(1);
+});
@@ -0,0 +1,214 @@
+import minimist from "minimist";
+import { createInterface } from "readline/promises";
+import { text } from "stream/consumers";
+import { PaymentNetwork } from "./client.js";
+import {
+  createWallet,
+  importWallet,
+  loadWallet,
+  listWallets,
+  removeWallet,
+  decryptWallet,
+  parseWalletNetwork,
+  networkFromPrivateKey,
+  walletNetworkLabel,
+  walletsDir,
+  readPassword,
+  readNewPassword,
+  readSecret,
+  WalletFile,
+} from "./keystore.js";
+import { print, printError } from "./output.js";
+
+/**
+ * Print usage for the wallet command
+ *
+ * @param log - Output function (stdout for --help, stderr for errors)
+ */
+function printUsage(log: (message: string) => void): void {
+  log("Usage: snackmoney wallet <command> [options]");
+  log("\nCommands:");
+  log(
+    "  create <name> [--network <network>]     Generate a new Base or Solana key (default: base)",
+  );
+  log(
+    "  import <name> [--network <network>]     Encrypt an existing private key",
+  );
+  log("  list                                    Show saved wallets");
+  log("  export <name>                           Print a wallet's private key");
+  log("  remove <name> [--yes]                   Delete a wallet");
+  log("\nExamples:");
+  log("  snackmoney wallet create main");
+  log("  snackmoney wallet import payouts --network solana");
+  log("  snackmoney send x/jessepollak 1¢ --wallet main");
+  log(
+    "\nKeys are encrypted with a password (scrypt, AES-256-GCM). Without a terminal the",
+  );
+  log(
+    "password is read from SNACKMONEY_WALLET_PASSWORD and an imported key from stdin.",
+  );
+}
+
+const args = minimist(process.argv.slice(2), {
+  string: ["_", "network"],
+  boolean: ["yes", "help"],
+  alias: { y: "yes", h: "help" },
+});
+
+const [command, name] = args._;
+
+/**
+ * Print one wallet
+ *
+ * @param wallet - The wallet
+ */
+function printWallet(wallet: WalletFile): void {
+  print(
+    `   ${wallet.name.padEnd(16)} ${walletNetworkLabel(wallet.network).padEnd(7)} ${wallet.address}`,
+  );
+}
+
+/**
+ * Read the private key to import: hidden prompt on a terminal, stdin otherwise
+ *
+ * @returns The private key
+ */
+async function readPrivateKey(): Promise<string> {
+  const key = process.stdin.isTTY
+    ? await readSecret("🔑 Private key: ", "private key")
+    : await text(process.stdin);
+  if (!key.trim()) {
+    throw new Error("No private key given");
+  }
+  return key.trim();
+}
+
+/**
+ * Ask before deleting a wallet: the name must be typed on a terminal, --yes
+ * is required otherwise
+ *
+ * @param wallet - The wallet to delete
+ * @returns True when the wallet may be deleted
+ */
+async function confirmRemove(wallet: WalletFile): Promise<boolean> {
+  if (args.yes) {
+    return true;
+  }
+  if (!process.stdin.isTTY) {
+    printError(
+      `❌ Refusing to delete wallet ${wallet.name} without confirmation: pass --yes`,
+    );
+    return false;
+  }
+  printError(
+    `⚠️  Deleting wallet ${wallet.name} (${wallet.address}) cannot be undone. Funds are lost unless the key is backed up.`,
+  );
+  const rl = createInterface({ input: process.stdin, output: process.stderr });
+  try {
+    const answer = await rl.question(`Type "${wallet.name}" to confirm: `);
+    if (answer.trim() === wallet.name) {
+      return true;
+    }
+    printError("❌ Cancelled, the wallet was kept");
+    return false;
+  } finally {
+    rl.close();
+  }
+}
+
+/**
+ * Run the wallet subcommand
+ */
+async function main(): Promise<void> {
+  switch (command) {
+    case "create": {
+      const network: PaymentNetwork = parseWalletNetwork(
+        args.network || "base",
+      );
+      const wallet = await createWallet(
+        name,
+        network,
+        await readNewPassword(name),
+      );
+      print(`✅ Created ${walletNetworkLabel(network)} wallet ${wallet.name}`);
+      print(`   Address: ${wallet.address}`);
+      print("   Fund it with USDC to start paying.");
+      break;
+    }
+
+    case "import": {
+      const privateKey = await readPrivateKey();
+      const network = args.network
+        ? parseWalletNetwork(args.network)
+        : networkFromPrivateKey(privateKey);
+      const wallet = await importWallet(
+        name,
+        network,
+        privateKey,
+        await readNewPassword(name),
+      );
+      print(`✅ Imported ${walletNetworkLabel(network)} wallet ${wallet.name}`);
+      print(`   Address: ${wallet.address}`);
+      if (process.env.EVM_PRIVATE_KEY || process.env.SVM_PRIVATE_KEY) {
+        print(
+          "   You can now remove EVM_PRIVATE_KEY/SVM_PRIVATE_KEY from your environment; they override saved wallets.",
+        );
+      }
+      break;
+    }
+
+    case "list": {
+      const wallets = listWallets();
+      if (wallets.length === 0) {
+        print(
+          "No wallets yet. Create one with: snackmoney wallet create <name>",
+        );
+        break;
+      }
+      print(`🔐 Wallets in ${walletsDir()}:\n`);
+      wallets.forEach(printWallet);
+      break;
+    }
+
+    case "export": {
+      const wallet = loadWallet(name);
+      const privateKey = await decryptWallet(
+        wallet,
+        await readPassword(wallet.name),
+      );
+      printError(
+        "⚠️  Anyone with this private key can spend the wallet's funds. Keep it secret.",
+      );
+      console.log(privateKey);
+      break;
+    }
+
+    case "remove": {
+      const wallet = loadWallet(name);
+      if (!(await confirmRemove(wallet))) {
+        process.exit(1);
+      }
+      removeWallet(wallet.name);
+      print(`✅ Removed wallet ${wallet.name}`);
+      break;
+    }
+  }
+}
+
+if (args.help) {
+  printUsage(console.log);
+  process.exit(0);
+}
+
+if (
+  !["create", "import", "list", "export", "remove"].includes(command) ||
+  (command !== "list" && !name)
+) {
+  printUsage(console.error);
+  process.exit(1);
+}
+
+main().catch((error: unknown) => {
+  printError(`❌ ${(error as Error).message}`);
+  process.exit(1);
+});